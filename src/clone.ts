@@ -0,0 +1,98 @@
+import type {ComponentType, Field} from './component';
+import type {Dispatcher} from './dispatcher';
+import type {Entity, EntityId} from './entity';
+import {EMPTY_ARRAY, RefsType, RefType, Type} from './type';
+
+/**
+ * Options for cloning an entity.
+ */
+export interface CloneOptions {
+  /**
+   * Ref fields to follow when cloning, as `[ComponentType, fieldName]` pairs.  Entities referenced
+   * by these fields get cloned as well (recursively), and the refs in the clones point to the
+   * cloned entities.  Refs in all other fields are copied as is.
+   */
+  deep?: [ComponentType<any>, string][];
+}
+
+
+/**
+ * Creates a new entity with copies of all the given entity's components and field values, and
+ * optionally clones the entities it references through designated ref fields too.  Backrefs are
+ * not copied but get rebuilt as the cloned refs are set.  Fields of type `object` and `weakObject`
+ * are copied by reference.
+ */
+export function cloneEntity(dispatcher: Dispatcher, sourceId: EntityId, options?: CloneOptions):
+    Entity {
+  const registry = dispatcher.registry;
+  const deepFields = new Set<Field<any>>();
+  if (options?.deep) {
+    for (const [type, fieldName] of options.deep) {
+      const field = type.__binding!.fields.find(f => f.name === fieldName);
+      CHECK: if (!(field?.type instanceof RefType || field?.type instanceof RefsType)) {
+        throw new Error(`Field ${type.name}.${fieldName} to clone deeply is not a ref`);
+      }
+      deepFields.add(field!);
+    }
+  }
+  const types = registry.types.filter(type => type !== registry.Alive && !type.options?.singleton);
+
+  // Find all the entities to clone first, so that deep refs can be pointed at their clones.
+  const sourceIds = [sourceId];
+  const clones = new Map<EntityId, Entity>();
+  clones.set(sourceId, registry.createEntity([]));
+  for (let i = 0; i < sourceIds.length && deepFields.size; i++) {
+    for (const type of types) {
+      if (!registry.hasShape(sourceIds[i], type, false)) continue;
+      for (const field of type.__binding!.fields) {
+        if (!deepFields.has(field)) continue;
+        const value = (type.__bind!(sourceIds[i], false) as any)[field.name];
+        const targets: (Entity | undefined)[] =
+          field.type instanceof RefsType ? Array.from(value) : [value];
+        for (const target of targets) {
+          if (!target || clones.has(target.__id)) continue;
+          sourceIds.push(target.__id);
+          clones.set(target.__id, registry.createEntity([]));
+        }
+      }
+    }
+  }
+
+  for (const id of sourceIds) {
+    const clone = clones.get(id)!;
+    for (const type of types) {
+      if (!registry.hasShape(id, type, false)) continue;
+      // Copy all the values out before adding the clone's component, since binding a new instance
+      // would otherwise repoint any array or struct views we read.
+      const component = type.__bind!(id, false) as any;
+      const values: Record<string, unknown> = {};
+      for (const field of type.__binding!.fields) {
+        if (field.default === EMPTY_ARRAY) continue;  // backrefs get rebuilt automatically
+        values[field.name] = copyValue(field, component[field.name], deepFields, clones);
+      }
+      clone.add(type, values);
+    }
+  }
+  return clones.get(sourceId)!;
+}
+
+
+function copyValue(
+  field: Field<any>, value: any, deepFields: Set<Field<any>>, clones: Map<EntityId, Entity>
+): unknown {
+  if (field.type instanceof RefType) {
+    return deepFields.has(field) && value ? clones.get(value.__id) : value;
+  }
+  if (field.type instanceof RefsType) {
+    const refs: (Entity | undefined)[] = Array.from(value);
+    return deepFields.has(field) ? refs.map(ref => ref && clones.get(ref.__id)) : refs;
+  }
+  if (value === null || typeof value !== 'object' || field.type === Type.object ||
+    field.type === Type.weakObject) {
+    return value;
+  }
+  if (typeof value.length === 'number') return Array.from(value);
+  const copy: Record<string, unknown> = {};
+  for (const key in value) copy[key] = value[key];
+  return copy;
+}
@@ -0,0 +1,142 @@
+import type {ComponentType} from './component';
+import {checkMask, Entity, EntityImpl} from './entity';
+import type {SystemBox} from './system';
+
+
+const enum CommandKind {
+  CREATE, ADD, REMOVE, DELETE
+}
+
+interface Command {
+  kind: CommandKind;
+  entity?: Entity;
+  type?: ComponentType<any>;
+  values?: Record<string, unknown>;
+  initialComponents?: (ComponentType<any> | Record<string, unknown>)[];
+}
+
+
+/**
+ * A buffer of structural changes -- creating and deleting entities, adding and removing
+ * components -- that are recorded during a system's execution and applied all at once at a sync
+ * point.  This lets you change the shape of entities while iterating over a query's results, since
+ * none of the changes take effect until the iteration is over.
+ *
+ * Every system has its own buffer in {@link System.commands}.  By default it's applied at the end
+ * of the system's execution, but you can set {@link CommandBuffer.applyAt} to `'group'` to defer
+ * the changes until all the systems in the group have executed, or call
+ * {@link CommandBuffer.apply} yourself at any point.
+ */
+export class CommandBuffer {
+  /**
+   * When to apply the recorded commands automatically: `'system'` applies them right after the
+   * system's `execute` method returns, and `'group'` applies them after all the systems in the
+   * group being executed are done.  Can be changed at any time, typically in the constructor.
+   */
+  applyAt: 'system' | 'group' = 'system';
+
+  private readonly __commands: Command[] = [];
+  __box: SystemBox;
+
+  /**
+   * The number of commands recorded that haven't been applied yet.
+   */
+  get size(): number {
+    return this.__commands.length;
+  }
+
+  /**
+   * Records the creation of a new entity.  Since the entity won't exist until the commands are
+   * applied, you can't get a handle to it.
+   * @param initialComponents The types of the components to add to the new entity, optionally
+   * interleaved with their initial properties.
+   */
+  create(...initialComponents: (ComponentType<any> | Record<string, unknown>)[]): void {
+    this.__commands.push({
+      kind: CommandKind.CREATE,
+      initialComponents: initialComponents.map(
+        item => typeof item === 'function' ? item : holdEntities(item))
+    });
+  }
+
+  /**
+   * Records the addition of a component to an entity.  The entity must not have a component of
+   * this type by the time the commands are applied.
+   * @param entity The entity to add the component to.
+   * @param type The type of component to add.
+   * @param values An optional object with field values to initialize the new component.
+   */
+  add<C>(entity: Entity, type: ComponentType<C>, values?: Partial<C>): void {
+    CHECK: checkMask(type, this.__box.dispatcher.registry.executingSystem, true);
+    this.__commands.push({
+      kind: CommandKind.ADD, entity: entity.hold(), type,
+      values: values && holdEntities(values as Record<string, unknown>)
+    });
+  }
+
+  /**
+   * Records the removal of a component from an entity.  The entity must have a component of this
+   * type by the time the commands are applied.
+   * @param entity The entity to remove the component from.
+   * @param type The type of component to remove.
+   */
+  remove(entity: Entity, type: ComponentType<any>): void {
+    CHECK: checkMask(type, this.__box.dispatcher.registry.executingSystem, true);
+    this.__commands.push({kind: CommandKind.REMOVE, entity: entity.hold(), type});
+  }
+
+  /**
+   * Records the deletion of an entity.  The entity must not have been deleted by the time the
+   * commands are applied.
+   * @param entity The entity to delete.
+   */
+  delete(entity: Entity): void {
+    this.__commands.push({kind: CommandKind.DELETE, entity: entity.hold()});
+  }
+
+  /**
+   * Applies all the recorded commands in order, then clears the buffer.  This happens
+   * automatically at the sync point set by {@link CommandBuffer.applyAt}, but you can also call it
+   * yourself from the system's `execute` method.
+   */
+  apply(): void {
+    if (!this.__commands.length) return;
+    const registry = this.__box.dispatcher.registry;
+    const executingSystem = registry.executingSystem;
+    // Access is checked against the owning system even when applied at the end of the group.
+    registry.executingSystem = this.__box;
+    try {
+      for (const command of this.__commands) {
+        switch (command.kind) {
+          case CommandKind.CREATE: registry.createEntity(command.initialComponents!); break;
+          case CommandKind.ADD: command.entity!.add(command.type!, command.values); break;
+          case CommandKind.REMOVE: command.entity!.remove(command.type!); break;
+          case CommandKind.DELETE: command.entity!.delete(); break;
+        }
+      }
+    } finally {
+      this.__commands.length = 0;
+      registry.executingSystem = executingSystem;
+    }
+  }
+}
+
+
+/**
+ * Returns a shallow copy of the field values with any entities (including within arrays) replaced
+ * by long-lived versions, so they remain valid until the commands are applied.
+ */
+function holdEntities(values: Record<string, unknown>): Record<string, unknown> {
+  const copy: Record<string, unknown> = {};
+  for (const key in values) {
+    const value = values[key];
+    if (value instanceof EntityImpl) {
+      copy[key] = value.hold();
+    } else if (Array.isArray(value)) {
+      copy[key] = value.map(item => item instanceof EntityImpl ? item.hold() : item);
+    } else {
+      copy[key] = value;
+    }
+  }
+  return copy;
+}
@@ -1,4 +1,4 @@
-import {EMPTY_ARRAY, Type} from './type';
+import {EMPTY_ARRAY, RefsType, RefType, Type} from './type';
 import type {Entity, EntityId} from './entity';
 import {MAX_NUM_FIELDS} from './consts';
 import type {Dispatcher} from './dispatcher';
@@ -19,6 +19,7 @@ export interface ComponentOptions {
   storage?: ComponentStorage;
   capacity?: number;
   initialCapacity?: number;
+  singleton?: boolean;
 }
 
 export interface Field<JSType> {
@@ -46,6 +47,26 @@ export interface ComponentType<C extends Component> {
    */
   id?: number;
 
+  /**
+   * An optional hook invoked right after a component of this type is added to an entity, with the
+   * newly initialized component.  Writes made to the component here don't count as writes for
+   * `changed` queries.  You must not retain references to the component or entity.
+   */
+  onAdd?(component: C, entity: Entity): void;
+
+  /**
+   * An optional hook invoked when a component of this type that was removed from a (still live)
+   * entity is finally freed, once all systems have had a chance to see its removal.  The component
+   * holds its last values and is read-only.  You must not create, delete, or modify entities here.
+   */
+  onRemove?(component: Readonly<C>): void;
+
+  /**
+   * An optional hook invoked instead of `onRemove` when a component of this type is freed because
+   * its entity was deleted.  If not defined, `onRemove` is invoked in this case too.
+   */
+  onDelete?(component: Readonly<C>): void;
+
   __binding?: Binding<C>;
   __bind?(id: EntityId, writable: boolean): C;
   __allocate?(id: EntityId): C;
@@ -73,7 +94,9 @@ export class Binding<C> {
     this.writableInstance = new type();  // eslint-disable-line new-cap
     this.shapeOffset = type.id! >> 5;
     this.shapeMask = 1 << (type.id! & 31);
-    this.refFields = fields.filter(field => field.type === Type.ref);
+    this.refFields = fields.filter(
+      field => field.type instanceof RefType || field.type instanceof RefsType);
+    this.internallyIndexed = fields.some(field => field.type instanceof RefsType);
     // eslint-disable-next-line no-new-func
     this.initDefault = new Function(
       'component',
@@ -198,6 +221,68 @@ class PackedStorage implements Storage {
 }
 
 
+class CompactStorage implements Storage {
+  index: Int32Array;
+
+  constructor(
+    private readonly maxEntities: number, private readonly binding: Binding<any>,
+    private readonly fields: Field<any>[]
+  ) {
+    this.growCapacity();
+  }
+
+  findIndex(id: number): number {
+    for (let i = 0; i < this.index.length; i++) {
+      if (this.index[i] === id) return i;
+    }
+    return -1;
+  }
+
+  acquireIndex(id: number): number {
+    let firstSpare;
+    for (let i = 0; i < this.index.length; i++) {
+      if (this.index[i] === id) return i;
+      if (firstSpare === undefined && this.index[i] === -1) firstSpare = i;
+    }
+    if (firstSpare === undefined) {
+      CHECK: if (!this.binding.elastic) {
+        throw new Error(
+          `Storage exhausted for component ${this.binding.type.name}; ` +
+          `raise its capacity above ${this.binding.capacity}`);
+      }
+      // Capacity is capped at maxEntities, and writing past the end of the index fails silently.
+      if (this.binding.capacity >= this.maxEntities) {
+        throw new Error(
+          `Storage exhausted for component ${this.binding.type.name}; ` +
+          `raise maxEntities above ${this.maxEntities}`);
+      }
+      firstSpare = this.index.length;
+      this.binding.capacity = Math.min(this.maxEntities, this.binding.capacity * 2);
+      this.growCapacity();
+    }
+    this.index[firstSpare] = id;
+    return firstSpare;
+  }
+
+  releaseIndex(id: number): void {
+    const index = this.findIndex(id);
+    DEBUG: if (index === -1) {
+      throw new Error(`Internal error, index for entity ${id} not allocated`);
+    }
+    this.index[index] = -1;
+  }
+
+  private growCapacity(): void {
+    STATS: this.binding.dispatcher.stats.for(this.binding.type).capacity = this.binding.capacity;
+    this.binding.dispatcher.buffers.register(
+      `component.${this.binding.type.id!}.storage.index`, this.binding.capacity, Int32Array,
+      (index: Int32Array) => {this.index = index;}, -1
+    );
+    if (this.binding.elastic) for (const field of this.fields) field.updateBuffer!();
+  }
+}
+
+
 export function initComponent(type: ComponentType<any>, id: EntityId, values: any): void {
   CHECK: {
     checkTypeDefined(type);
@@ -242,13 +327,25 @@ export function assimilateComponentType<C>(
   typeId: number, type: ComponentType<C>, dispatcher: Dispatcher
 ): void {
   const fields = gatherFields(type);
+  const singleton = !!type.options?.singleton;
   // For tag components, force sparse storage since we don't actually need to allocate anything.
-  const storage =
-    fields.length ? (type.options?.storage ?? dispatcher.defaultComponentStorage) : 'sparse';
+  // Singletons only ever have one instance, so a fixed compact slot is all they need.
+  const storage = fields.length ?
+    (singleton ? 'compact' : type.options?.storage ?? dispatcher.defaultComponentStorage) :
+    'sparse';
   const capacity = storage === 'sparse' ?
-    dispatcher.maxEntities : Math.min(dispatcher.maxEntities, type.options?.capacity ?? 0);
+    dispatcher.maxEntities :
+    Math.min(dispatcher.maxEntities, singleton ? 1 : type.options?.capacity ?? 0);
   const initialCapacity = type.options?.initialCapacity ?? 8;
   CHECK: {
+    if (singleton && (
+      typeof type.options?.storage !== 'undefined' ||
+      typeof type.options?.capacity !== 'undefined' ||
+      typeof type.options?.initialCapacity !== 'undefined'
+    )) {
+      throw new Error(
+        `Singleton component type ${type.name} cannot have storage or capacity options`);
+    }
     if (typeof type.options?.capacity !== 'undefined') {
       if (storage === 'sparse') {
         throw new Error(
@@ -320,6 +417,8 @@ export function defineAndAllocateComponentType<C extends Component>(type: Compon
         CHECK: resetComponent(true);
         return binding.writableInstance;
       };
+      // Clear any leftover storage manager from when the type was used in another world.
+      type.__free = undefined;
       break;
 
     case 'packed': {
@@ -346,9 +445,29 @@ export function defineAndAllocateComponentType<C extends Component>(type: Compon
       break;
     }
 
-    case 'compact':
-      // TODO: implement compact storage type
-      throw new Error('Not yet implemented');
+    case 'compact': {
+      const storageManager =
+        new CompactStorage(binding.dispatcher.maxEntities, binding, binding.fields);
+      type.__bind = (id: EntityId, writable: boolean): C => {
+        binding.entityId = id;
+        binding.index = storageManager.findIndex(id);
+        DEBUG: if (binding.index === -1) {
+          throw new Error(`Attempt to bind unacquired entity ${id} to ${type.name}`);
+        }
+        CHECK: resetComponent(writable);
+        return writable ? binding.writableInstance : binding.readonlyInstance;
+      };
+      type.__allocate = (id: EntityId): C => {
+        binding.entityId = id;
+        binding.index = storageManager.acquireIndex(id);
+        CHECK: resetComponent(true);
+        return binding.writableInstance;
+      };
+      type.__free = (id: EntityId): void => {
+        storageManager.releaseIndex(id);
+      };
+      break;
+    }
 
     default:
       CHECK: throw new Error(`Invalid storage type "${binding.storage}`);
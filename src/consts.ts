@@ -9,5 +9,6 @@ export const MAX_NUM_COMPONENTS = 2 ** COMPONENT_ID_BITS;
 export const COMPONENT_ID_MASK = MAX_NUM_COMPONENTS - 1;
 export const MAX_NUM_FIELDS = 2 ** FIELD_SEQ_BITS;
 export const FIELD_SEQ_MASK = MAX_NUM_FIELDS - 1;
+export const MAX_NUM_REFS = 2 ** (32 - COMPONENT_ID_BITS - FIELD_SEQ_BITS);
 
 // TODO: enforce max length of ref structs/arrays
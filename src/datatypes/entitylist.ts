@@ -27,6 +27,7 @@ export class ArrayEntityList implements EntityList {
 export class PackedArrayEntityList implements EntityList {
   entities: Entity[] = [];
   private readonly lookupTable: Int32Array;
+  private sortKeys: Float64Array | undefined;
 
   constructor(private readonly pool: EntityPool, maxEntities: number) {
     this.lookupTable = new Int32Array(maxEntities);
@@ -54,9 +55,73 @@ export class PackedArrayEntityList implements EntityList {
     return this.lookupTable[id] >= 0;
   }
 
+  sort(key: (entity: Entity) => number): void {
+    if (!this.sortKeys) this.sortKeys = new Float64Array(this.lookupTable.length);
+    const keys = this.sortKeys;
+    for (const entity of this.entities) keys[entity.__id] = key(entity);
+    this.entities.sort((a, b) => keys[a.__id] - keys[b.__id]);
+    for (let i = 0; i < this.entities.length; i++) this.lookupTable[this.entities[i].__id] = i;
+  }
+
   clear(): void {
     for (const entity of this.entities) this.pool.return(entity.__id);
     this.entities = [];
     this.lookupTable.fill(-1);
   }
 }
+
+
+export class EntityGroups {
+  readonly groups = new Map<unknown, Entity[]>();
+  private readonly keys: unknown[] = [];  // indexed by id
+  private readonly indices: Int32Array;  // indexed by id
+
+  constructor(private readonly pool: EntityPool, maxEntities: number) {
+    this.indices = new Int32Array(maxEntities);
+    this.indices.fill(-1);
+  }
+
+  add(id: EntityId, key: unknown): void {
+    let group = this.groups.get(key);
+    if (!group) this.groups.set(key, group = []);
+    this.indices[id] = group.push(this.pool.borrow(id)) - 1;
+    this.keys[id] = key;
+  }
+
+  remove(id: EntityId): void {
+    const index = this.indices[id];
+    if (index < 0) throw new Error('Internal error, entity not in group');
+    const key = this.keys[id];
+    const group = this.groups.get(key)!;
+    this.pool.return(id);
+    this.indices[id] = -1;
+    this.keys[id] = undefined;
+    const entity = group.pop()!;
+    if (index < group.length) {
+      group[index] = entity;
+      this.indices[entity.__id] = index;
+    }
+    if (!group.length) this.groups.delete(key);
+  }
+
+  update(id: EntityId, key: unknown): void {
+    if (this.keys[id] === key) return;
+    this.remove(id);
+    this.add(id, key);
+  }
+
+  has(id: EntityId): boolean {
+    return this.indices[id] >= 0;
+  }
+
+  clear(): void {
+    for (const group of this.groups.values()) {
+      for (const entity of group) {
+        this.indices[entity.__id] = -1;
+        this.keys[entity.__id] = undefined;
+        this.pool.return(entity.__id);
+      }
+    }
+    this.groups.clear();
+  }
+}
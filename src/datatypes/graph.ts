@@ -12,6 +12,7 @@ interface Printable {
 export class Graph<V extends Printable> {
   private readonly numVertices: number;
   private readonly edges: number[];
+  private readonly labels: (string | undefined)[];
   private readonly vertexIndexMap = new Map<V, number>();
   private sealed = false;
   private sortedVertices: V[];
@@ -22,6 +23,7 @@ export class Graph<V extends Printable> {
       this.vertexIndexMap.set(vertices[i], i);
     }
     this.edges = new Array(this.numVertices ** 2).fill(0);
+    this.labels = new Array(this.numVertices ** 2);
   }
 
   get topologicallSortedVertices(): V[] {
@@ -38,7 +40,7 @@ export class Graph<V extends Printable> {
     return sourceId * this.numVertices + targetId;
   }
 
-  private setEdge(source: V, target: V, weight: number): void {
+  private setEdge(source: V, target: V, weight: number, label?: string): void {
     DEBUG: if (this.sealed) throw new Error('Graph already sealed');
     if (source === target) return;
     const sourceToTarget = this.getEdgeIndex(source, target);
@@ -46,18 +48,49 @@ export class Graph<V extends Printable> {
     const absWeight = Math.abs(weight);
     if (absWeight < Math.abs(this.edges[sourceToTarget]) ||
         absWeight < Math.abs(this.edges[targetToSource])) return;
+    // Edges set repeatedly with the same weight accumulate all their labels.
+    const oldLabel =
+      this.edges[sourceToTarget] === weight ? this.labels[sourceToTarget] : undefined;
+    let newLabel = label;
+    if (oldLabel !== undefined) {
+      newLabel = label === undefined || oldLabel.split('; ').includes(label) ?
+        oldLabel : `${oldLabel}; ${label}`;
+    }
+    this.labels[sourceToTarget] = newLabel;
     this.edges[sourceToTarget] = weight;
-    if (absWeight > Math.abs(this.edges[targetToSource])) this.edges[targetToSource] = 0;
+    if (absWeight > Math.abs(this.edges[targetToSource])) {
+      this.edges[targetToSource] = 0;
+      this.labels[targetToSource] = undefined;
+    }
   }
 
-  addEdge(source: V, target: V, weight: number): void {
+  addEdge(source: V, target: V, weight: number, label?: string): void {
     DEBUG: if (weight <= 0) throw new Error(`Edge has non-positive weight: ${weight}`);
-    this.setEdge(source, target, weight);
+    this.setEdge(source, target, weight, label);
   }
 
-  denyEdge(source: V, target: V, weight: number): void {
+  denyEdge(source: V, target: V, weight: number, label?: string): void {
     DEBUG: if (weight <= 0) throw new Error(`Edge has non-positive weight: ${weight}`);
-    this.setEdge(source, target, -weight);
+    this.setEdge(source, target, -weight, label);
+  }
+
+  /**
+   * Lists all edges currently in the graph, including denial edges (with negative weights), along
+   * with their labels.
+   */
+  get labelledEdges(): {source: V, target: V, weight: number, label?: string}[] {
+    const edges = [];
+    for (let i = 0; i < this.numVertices; i++) {
+      for (let j = 0; j < this.numVertices; j++) {
+        const index = i * this.numVertices + j;
+        if (!this.edges[index]) continue;
+        edges.push({
+          source: this.vertices[i], target: this.vertices[j], weight: this.edges[index],
+          label: this.labels[index]
+        });
+      }
+    }
+    return edges;
   }
 
   hasEdge(source: V, target: V): boolean {
@@ -9,6 +9,7 @@ export interface Uint32Pool {
   peekSinceMark(index: number): number | void;
   refill(source: number[]): void;
   fillWithDescendingIntegers(first: number): void;
+  clear(): void;
 }
 
 const HEADER_LENGTH = 2;
@@ -70,6 +71,11 @@ export class UnsharedPool implements Uint32Pool {
     }
     this.data[0] = this.data.length - HEADER_LENGTH;
   }
+
+  clear(): void {
+    this.data[0] = 0;
+    this.data[1] = 0;
+  }
 }
 
 
@@ -95,7 +101,7 @@ export class SharedAtomicPool {
   }
 
   take(): number {
-    const length = Atomics.sub(this.data, 0, 1);
+    const length = Atomics.sub(this.data, 0, 1) - 1;
     CHECK: if (length < 0) {
       throw new RangeError(
         `Pool capacity exceeded, please raise ${this.configParamName} above ${this.maxItems}`);
@@ -138,4 +144,9 @@ export class SharedAtomicPool {
     }
     this.data[0] = this.data.length - HEADER_LENGTH;
   }
+
+  clear(): void {
+    this.data[0] = 0;
+    this.data[1] = 0;
+  }
 }
@@ -10,6 +10,7 @@ export interface ShapeArray {
   clear(): void;
   match(entityId: EntityId, positiveMask: number[]): boolean;
   matchNot(entityId: EntityId, negativeMask: number[]): boolean;
+  matchAny(entityId: EntityId, anyMask: number[]): boolean;
 }
 
 
@@ -71,6 +72,15 @@ export class UnsharedShapeArray implements ShapeArray {
     }
     return true;
   }
+
+  matchAny(entityId: EntityId, anyMask: number[]): boolean {
+    const array = this.array;
+    const index = entityId * this.stride;
+    for (let i = 0; i < anyMask.length; i++) {
+      if ((array[index + i] & anyMask[i]) !== 0) return true;
+    }
+    return false;
+  }
 }
 
 
@@ -135,4 +145,13 @@ export class AtomicSharedShapeArray implements ShapeArray {
     }
     return true;
   }
+
+  matchAny(entityId: EntityId, anyMask: number[]): boolean {
+    const array = this.array;
+    const index = entityId * this.stride;
+    for (let i = 0; i < anyMask.length; i++) {
+      if ((array[index + i] & anyMask[i]) !== 0) return true;
+    }
+    return false;
+  }
 }
@@ -1,5 +1,5 @@
 import type {ComponentStorage, ComponentType} from './component';
-import type {Entity} from './entity';
+import type {Entity, EntityId} from './entity';
 import {MAX_NUM_COMPONENTS, MAX_NUM_ENTITIES} from './consts';
 import {Log, LogPointer} from './datatypes/log';
 import {RunState, System, SystemBox, SystemType} from './system';
@@ -7,6 +7,11 @@ import {Registry} from './registry';
 import {Stats} from './stats';
 import {RefIndexer} from './refindexer';
 import {Buffers} from './buffers';
+import {restoreSnapshot, takeSnapshot} from './snapshot';
+import type {Prefab, PrefabOverrides} from './prefab';
+import {cloneEntity, CloneOptions} from './clone';
+import {Children, Parent} from './hierarchy';
+import {TraceEvent, Tracer} from './trace';
 import {
   componentTypes as decoratedComponentTypes, systemTypes as decoratedSystemTypes
 } from './decorators';
@@ -37,6 +42,11 @@ export interface WorldOptions {
    * decorated with @component or @system will be included automatically.
    */
   defs?: DefsArray;
+
+  /**
+   * Reserved for running systems on worker threads, which isn't implemented yet, so it must be 1
+   * (the default).
+   */
   threads?: number;
   maxEntities?: number;
   maxLimboComponents?: number;
@@ -44,6 +54,20 @@ export interface WorldOptions {
   maxShapeChangesPerFrame?: number;
   maxWritesPerFrame?: number;
   defaultComponentStorage?: ComponentStorage;
+
+  /**
+   * A snapshot previously obtained from `world.snapshot()`.  If given, the new world will be
+   * populated with all the entities (keeping their IDs and stable IDs) and component values from
+   * the snapshot before any systems are initialized.
+   */
+  snapshot?: Uint8Array;
+
+  /**
+   * Whether to keep track of all changes made to the world so that they can be encoded with a
+   * replication encoder obtained from `world.createReplicationEncoder()`.  This will cause all
+   * writes to all components to be tracked, which has some performance cost.  Defaults to false.
+   */
+  replicate?: boolean;
 }
 
 /**
@@ -83,6 +107,7 @@ export class Dispatcher {
   readonly systemGroups: SystemGroup[];
   private default: {group: SystemGroup, frame: Frame};
   lastTime: number;
+  alpha = 0;
   executing: boolean;
   readonly shapeLog: Log;
   readonly writeLog?: Log;
@@ -92,7 +117,11 @@ export class Dispatcher {
   readonly indexer: RefIndexer;
   readonly planner: Planner;
   readonly threads: number;
+  readonly replicate: boolean;
   readonly buffers: Buffers;
+  singleton?: Entity;
+  tracer?: Tracer;
+  readonly prefabs = new Map<string, Prefab>();
   private userCallbackSystem: CallbackSystem;
   private callback: {group: SystemGroup, frame: Frame};
   private readonly deferredControls = new Map<SystemBox, RunState>();
@@ -105,7 +134,9 @@ export class Dispatcher {
     maxShapeChangesPerFrame = maxEntities * 2,
     maxWritesPerFrame = maxEntities * 4,
     maxRefChangesPerFrame = maxEntities,
-    defaultComponentStorage = 'packed'
+    defaultComponentStorage = 'packed',
+    snapshot,
+    replicate = false
   }: WorldOptions) {
     if (threads < 1) throw new Error('Minimum of one thread');
     if (threads > 1) throw new Error('Multithreading not yet implemented');
@@ -114,17 +145,23 @@ export class Dispatcher {
     }
     const {componentTypes, systemTypes, systemGroups} =
       this.splitDefs([defs ?? [], decoratedComponentTypes, decoratedSystemTypes]);
+    // The hierarchy's components only work as a pair.
+    if (componentTypes.includes(Parent) !== componentTypes.includes(Children)) {
+      componentTypes.push(componentTypes.includes(Parent) ? Children : Parent);
+    }
     if (componentTypes.length > MAX_NUM_COMPONENTS) {
       throw new Error(`Too many component types, the limit is ${MAX_NUM_COMPONENTS}`);
     }
     STATS: this.stats = new Stats();
     this.threads = threads;
+    this.replicate = replicate;
     this.buffers = new Buffers(threads > 1);
     this.maxEntities = maxEntities;
     this.defaultComponentStorage = defaultComponentStorage;
     this.registry = new Registry(maxEntities, maxLimboComponents, componentTypes, this);
     this.indexer = new RefIndexer(this, maxRefChangesPerFrame);
     this.registry.initializeComponentTypes();
+    if (replicate) for (const type of this.registry.types) type.__binding!.trackedWrites = true;
     this.shapeLog = new Log(
       maxShapeChangesPerFrame, 'maxShapeChangesPerFrame', this.buffers,
       {sortedByComponentType: true, numComponentTypes: this.registry.types.length}
@@ -133,10 +170,12 @@ export class Dispatcher {
     this.systemGroups = systemGroups;
     this.systems = this.normalizeAndInitSystems(systemTypes);
     this.initCallbackSystem();
-    this.registry.hasNegativeQueries = this.systems.some(system => system.hasNegativeQueries);
+    // Replication needs entity creations and deletions in the shape log, as do negative queries.
+    this.registry.hasNegativeQueries =
+      replicate || this.systems.some(system => system.hasNegativeQueries);
     this.planner = new Planner(this, this.systems, this.systemGroups);
     this.planner.organize();
-    if (this.systems.some(system => system.hasWriteQueries)) {
+    if (replicate || this.systems.some(system => system.hasWriteQueries)) {
       this.writeLog = new Log(
         maxWritesPerFrame, 'maxWritesPerFrame', this.buffers,
         {sortedByComponentType: true, numComponentTypes: this.registry.types.length}
@@ -144,6 +183,31 @@ export class Dispatcher {
       this.writeLogFramePointer = this.writeLog.createPointer();
     }
     for (const box of this.systems) box.finishConstructing();
+    if (snapshot) restoreSnapshot(this, snapshot);
+    this.createSingletons(!!snapshot);
+  }
+
+  private createSingletons(restored: boolean): void {
+    const types = this.registry.types.filter(type => type.options?.singleton);
+    if (!types.length) return;
+    // A restored snapshot may already hold the singletons, in which case we adopt their entity.
+    let adoptedId: EntityId | undefined;
+    if (restored) {
+      for (let id = 0; id < this.maxEntities && adoptedId === undefined; id++) {
+        for (const type of types) {
+          if (this.registry.hasShape(id, type, false)) adoptedId = id;
+        }
+      }
+    }
+    // The singleton entity is an implementation detail, so leave it out of the entity count.
+    STATS: this.stats.numEntities -= 1;
+    const entity = adoptedId === undefined ?
+      this.registry.createEntity([]) : this.registry.pool.borrowTemporarily(adoptedId);
+    for (const type of types) {
+      if (!this.registry.hasShape(entity.__id, type, false)) entity.add(type);
+    }
+    this.singleton = entity.hold();
+    this.flush();
   }
 
   get threaded(): boolean {return this.threads > 1;}
@@ -241,6 +305,12 @@ export class Dispatcher {
   }
 
   async execute(time?: number, delta?: number): Promise<void> {
+    CHECK: for (const group of this.systemGroups) {
+      if (group.__fixedStep !== undefined) {
+        throw new Error(
+          'World has a fixed step group, so it must be executed with a custom executor');
+      }
+    }
     this.default.frame.begin();
     await Promise.resolve(this.default.frame.execute(this.default.group, time, delta));
     this.default.frame.end();
@@ -257,8 +327,10 @@ export class Dispatcher {
   }
 
   completeCycle(): void {
+    this.tracer?.begin('completeCycle', 'dispatcher');
     this.registry.completeCycle();
     this.indexer.completeCycle();
+    this.tracer?.end('completeCycle', 'dispatcher');
   }
 
   completeFrame(): void {
@@ -273,10 +345,47 @@ export class Dispatcher {
   }
 
   flush(): void {
+    this.tracer?.begin('flush', 'dispatcher');
     this.registry.flush();
     this.indexer.flush();  // may update writeLog
     this.shapeLog.commit();
     this.writeLog?.commit();
+    this.tracer?.end('flush', 'dispatcher');
+  }
+
+  startTrace(): void {
+    CHECK: if (this.tracer) throw new Error('Already tracing');
+    CHECK: if (this.executing) throw new Error('Cannot start tracing while the world is executing');
+    this.tracer = new Tracer();
+  }
+
+  stopTrace(): TraceEvent[] {
+    CHECK: if (!this.tracer) throw new Error('Not tracing');
+    CHECK: if (this.executing) throw new Error('Cannot stop tracing while the world is executing');
+    const events = this.tracer!.events;
+    this.tracer = undefined;
+    return events;
+  }
+
+  traceCounters(): void {
+    if (!this.tracer) return;
+    // Count straight from the registry rather than the stats, which perf builds don't keep.
+    const registry = this.registry;
+    const types = registry.types.filter(type => type !== registry.Alive);
+    const counts: Record<string, number> = {};
+    for (const type of types) counts[type.name] = 0;
+    let numEntities = 0;
+    for (let id = 0; id < this.maxEntities; id++) {
+      if (!registry.hasShape(id, registry.Alive, false)) continue;
+      if (id !== this.singleton?.__id) numEntities += 1;
+      for (const type of types) if (registry.hasShape(id, type, false)) counts[type.name] += 1;
+    }
+    this.tracer.counter('entities', {entities: numEntities});
+    this.tracer.counter('components', counts);
+  }
+
+  snapshot(): Uint8Array {
+    return takeSnapshot(this);
   }
 
   createEntity(initialComponents: (ComponentType<any> | Record<string, unknown>)[]): Entity {
@@ -285,6 +394,21 @@ export class Dispatcher {
     return entity;
   }
 
+  cloneEntity(id: EntityId, options?: CloneOptions): Entity {
+    return cloneEntity(this, id, options);
+  }
+
+  instantiatePrefab(prefab: Prefab | string, overrides?: PrefabOverrides): Entity {
+    if (typeof prefab === 'string') {
+      const name = prefab;
+      prefab = this.prefabs.get(name)!;
+      CHECK: if (!prefab) throw new Error(`Unknown prefab ${name}`);
+    }
+    const entity = prefab.__instantiate(this, overrides);
+    if (!this.executing) this.flush();
+    return entity;
+  }
+
   control(options: ControlOptions): void {
     CHECK: this.checkControlOverlap(options);
     this.deferRequestedRunState(options.stop, RunState.STOPPED);
@@ -1,4 +1,5 @@
 import {checkTypeDefined, ComponentType, initComponent} from './component';
+import type {CloneOptions} from './clone';
 import type {Registry} from './registry';
 import type {SystemBox} from './system';
 
@@ -36,10 +37,14 @@ export class EntityImpl {
       if (this.__registry.hasShape(this.__id, type, false)) {
         throw new Error(`Entity already has a ${type.name} component`);
       }
+      if (type.options?.singleton && this.__registry.dispatcher.singleton) {
+        throw new Error(`Singleton component ${type.name} cannot be added to an entity`);
+      }
     }
     this.__registry.setShape(this.__id, type);
     STATS: this.__registry.dispatcher.stats.for(type).numEntities += 1;
     initComponent(type, this.__id, values);
+    type.onAdd?.(type.__bind!(this.__id, true), this);
   }
 
   /**
@@ -73,6 +78,9 @@ export class EntityImpl {
       this.__checkValid();
       this.__checkMask(type, true);
       this.__checkHas(type, false);
+      if (type.options?.singleton) {
+        throw new Error(`Singleton component ${type.name} cannot be removed`);
+      }
     }
     this.__registry.clearShape(this.__id, type);
   }
@@ -154,6 +162,9 @@ export class EntityImpl {
     CHECK: if (!this.__registry.hasShape(this.__id, Alive, false)) {
       throw new Error('Entity already deleted');
     }
+    CHECK: if (this.__id === this.__registry.dispatcher.singleton?.__id) {
+      throw new Error('Cannot delete the entity holding singleton components');
+    }
     for (const type of this.__registry.types) {
       if (this.__registry.hasShape(this.__id, type, false)) {
         CHECK: if (type !== Alive) this.__checkMask(type, true);
@@ -163,6 +174,24 @@ export class EntityImpl {
     this.__registry.dispatcher.indexer.clearAllRefs(this.__id, false);
   }
 
+  /**
+   * Creates a new entity with the same components as this one and copies of all their field values,
+   * including refs.  Backrefs pointing to this entity are not copied, but backrefs to the entities
+   * it references will include the clone.  You'll need write access to all the entity's component
+   * types.
+   * @param options Options to clone a whole subtree of entities by following some ref fields.
+   * @returns The newly created entity.
+   */
+  clone(options?: CloneOptions): Entity {
+    CHECK: {
+      this.__checkValid();
+      if (!this.__registry.hasShape(this.__id, this.__registry.Alive, false)) {
+        throw new Error('Entity has been deleted');
+      }
+    }
+    return this.__registry.dispatcher.cloneEntity(this.__id, options);
+  }
+
   /**
    * Creates a long-lived version of this entity object, that you can safely keep for as long as the
    * entity exists.  Once the entity is deleted (and swept up after the end of the next frame) all
@@ -174,6 +203,17 @@ export class EntityImpl {
     return this.__registry.holdEntity(this.__id);
   }
 
+  /**
+   * A number that identifies this entity and can be safely stored anywhere, e.g. in UI state or
+   * network messages.  Unlike the entity object itself, it won't ever refer to a different entity:
+   * once this entity is deleted, {@link System.getEntity} will return `undefined` for it even if
+   * the underlying slot gets reused.
+   */
+  get stableId(): number {
+    CHECK: this.__checkValid();
+    return this.__registry.getStableId(this.__id);
+  }
+
   /**
    * Returns whether this entity and another one are in fact the same entity.  This can be useful
    * for comparing held entities to transient query ones.
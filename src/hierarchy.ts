@@ -0,0 +1,86 @@
+import type {Entity} from './entity';
+import {Type} from './type';
+
+
+/**
+ * A built-in component that places its entity in a hierarchy (e.g., a scene graph) under another
+ * entity.  Deleting an entity deletes its whole subtree along with it.
+ *
+ * Include `Parent` in your world's defs to use the hierarchy; `Children` gets included
+ * automatically.  Use {@link setParent} to link entities, as it takes care of adding the
+ * `Children` component to the parent.
+ */
+export class Parent {
+  static schema = {parent: Type.ref({onTargetDeleted: 'delete'})};
+  declare parent?: Entity;
+}
+
+/**
+ * A built-in component that lists the entities whose `Parent` component points to its entity.
+ */
+export class Children {
+  static schema = {children: Type.backrefs(Parent, 'parent')};
+  declare children: Entity[];
+}
+
+
+/**
+ * Places an entity under a new parent in the hierarchy, or detaches it from its current parent.
+ * The calling system needs write access to both `Parent` and `Children`.
+ * @param child The entity to move.
+ * @param parent The entity's new parent, or `undefined` to make it a root.
+ */
+export function setParent(child: Entity, parent: Entity | undefined): void {
+  if (!parent) {
+    if (child.has(Parent)) child.remove(Parent);
+    return;
+  }
+  CHECK: for (let ancestor: Entity | undefined = parent; ancestor; ancestor = getParent(ancestor)) {
+    if (ancestor.isSame(child)) throw new Error('Entity cannot be placed under its own subtree');
+  }
+  if (!parent.has(Children)) parent.add(Children);
+  if (child.has(Parent)) {
+    child.write(Parent).parent = parent;
+  } else {
+    child.add(Parent, {parent});
+  }
+}
+
+/**
+ * Returns the parent of an entity in the hierarchy, if any.
+ * @param entity The entity whose parent to look up.
+ * @returns The entity's parent, or `undefined` if it's a root.
+ */
+export function getParent(entity: Entity): Entity | undefined {
+  return entity.has(Parent) ? entity.read(Parent).parent : undefined;
+}
+
+/**
+ * Returns the depth of an entity in the hierarchy, where roots have a depth of 0.
+ * @param entity The entity whose depth to compute.
+ * @returns The number of ancestors the entity has.
+ */
+export function getDepth(entity: Entity): number {
+  let depth = 0;
+  for (let ancestor = getParent(entity); ancestor; ancestor = getParent(ancestor)) depth += 1;
+  return depth;
+}
+
+/**
+ * Visits an entity and all its descendants depth-first, each parent before its children.
+ * @param root The entity at the top of the subtree to visit.
+ * @param callback A function to call on each entity, with its depth relative to the root.  If it
+ * returns `false` the entity's descendants will be skipped.
+ */
+export function traverseHierarchy(
+  root: Entity, callback: (entity: Entity, depth: number) => boolean | void
+): void {
+  visit(root, 0, callback);
+}
+
+function visit(
+  entity: Entity, depth: number, callback: (entity: Entity, depth: number) => boolean | void
+): void {
+  if (callback(entity, depth) === false || !entity.has(Children)) return;
+  for (const child of entity.read(Children).children) visit(child, depth + 1, callback);
+}
@@ -1,5 +1,6 @@
 export {World} from './world';
 export {Type} from './type';
+export type {RefOptions} from './type';
 export type {Entity} from './entity';
 export {System} from './system';
 export type {SystemType} from './system';
@@ -7,3 +8,12 @@ export {component, field, system} from './decorators';
 export {Query} from './query';
 export type {ComponentType} from './component';
 export type {Frame, SystemGroup} from './schedules';
+export type {ReplicationDecoder, ReplicationEncoder} from './replication';
+export type {CloneOptions} from './clone';
+export type {TraceEvent} from './trace';
+export type {ScheduleEdge, ScheduleGraph} from './schedulegraph';
+export type {CommandBuffer} from './commands';
+export {
+  Children, getDepth, getParent, Parent, setParent, traverseHierarchy
+} from './hierarchy';
+export type {Prefab, PrefabChildDef, PrefabDef, PrefabOverrides} from './prefab';
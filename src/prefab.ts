@@ -0,0 +1,211 @@
+import type {ComponentType} from './component';
+import type {Dispatcher} from './dispatcher';
+import type {Entity} from './entity';
+
+
+/**
+ * Field values to override when instantiating a prefab, keyed by component type name.
+ */
+export type PrefabOverrides = Record<string, Record<string, unknown>>;
+
+/**
+ * A data-only description of a prefab, suitable for loading from a JSON document.  Component types
+ * are referred to by name.
+ */
+export interface PrefabDef {
+  /**
+   * The name of another prefab to start from.  Its components, field values, and children are
+   * inherited, and field values given here override the inherited ones.
+   */
+  extends?: string;
+
+  /**
+   * The components to add to each new entity, mapping component type names to initial field
+   * values.
+   */
+  components?: Record<string, Record<string, unknown> | null>;
+
+  /**
+   * Child entities to create along with each new entity.
+   */
+  children?: PrefabChildDef[];
+}
+
+/**
+ * A child entity to create along with a prefab's entity.
+ */
+export interface PrefabChildDef {
+  /**
+   * The name of the prefab to instantiate for the child.
+   */
+  prefab: string;
+
+  /**
+   * A ref field on one of the child's components, in `Component.field` form, that will be set to
+   * point to the parent entity.
+   */
+  link?: string;
+
+  /**
+   * Field values to override in the child, keyed by component type name.
+   */
+  overrides?: PrefabOverrides;
+}
+
+interface PrefabChild {
+  prefab: Prefab;
+  linkTypeName?: string;
+  linkFieldName?: string;
+  overrides?: PrefabOverrides;
+}
+
+
+/**
+ * A template for creating entities with a given set of components and initial field values, and
+ * optionally child entities linked to them by refs.  Define prefabs with `world.definePrefab` or
+ * `world.definePrefabs`, and instantiate them with `createEntity`.
+ */
+export class Prefab {
+  constructor(
+    readonly name: string,
+    private readonly __components: Map<ComponentType<any>, Record<string, unknown> | undefined>,
+    private readonly __children: PrefabChild[]
+  ) {}
+
+  __instantiate(dispatcher: Dispatcher, overrides?: PrefabOverrides): Entity {
+    CHECK: if (overrides) {
+      for (const typeName in overrides) {
+        if (!this.__findType(typeName)) {
+          throw new Error(
+            `Prefab ${this.name} doesn't include a ${typeName} component to override`);
+        }
+      }
+    }
+    const initialComponents: (ComponentType<any> | Record<string, unknown>)[] = [];
+    for (const [type, values] of this.__components) {
+      const override = overrides?.[type.name];
+      initialComponents.push(type);
+      if (values || override) initialComponents.push({...values, ...override});
+    }
+    const entity = dispatcher.registry.createEntity(initialComponents);
+    for (const child of this.__children) {
+      let childOverrides = child.overrides;
+      if (child.linkTypeName) {
+        childOverrides = {
+          ...childOverrides, [child.linkTypeName]: {
+            ...childOverrides?.[child.linkTypeName], [child.linkFieldName!]: entity
+          }
+        };
+      }
+      child.prefab.__instantiate(dispatcher, childOverrides);
+    }
+    return entity;
+  }
+
+  __extend(
+    name: string, components: Map<ComponentType<any>, Record<string, unknown> | undefined>,
+    children: PrefabChild[]
+  ): Prefab {
+    const mergedComponents = new Map(this.__components);
+    for (const [type, values] of components) {
+      const inherited = mergedComponents.get(type);
+      mergedComponents.set(type, inherited || values ? {...inherited, ...values} : undefined);
+    }
+    return new Prefab(name, mergedComponents, [...this.__children, ...children]);
+  }
+
+  __findType(typeName: string): ComponentType<any> | undefined {
+    for (const type of this.__components.keys()) if (type.name === typeName) return type;
+  }
+}
+
+
+/**
+ * Defines a prefab from either a list of component types interleaved with initial field values
+ * (just like `createEntity`) or a data-only description, and registers it with the world under the
+ * given name.
+ */
+export function definePrefab(
+  dispatcher: Dispatcher, name: string,
+  def: PrefabDef | (ComponentType<any> | Record<string, unknown>)[]
+): Prefab {
+  let prefab: Prefab;
+  if (Array.isArray(def)) {
+    const components = new Map<ComponentType<any>, Record<string, unknown> | undefined>();
+    for (let i = 0; i < def.length; i++) {
+      const type = def[i];
+      CHECK: if (typeof type !== 'function') {
+        throw new Error(`Bad prefab ${name} definition: expected component type, got: ${type}`);
+      }
+      let values: ComponentType<any> | Record<string, unknown> | undefined = def[i + 1];
+      if (typeof values === 'function') values = undefined; else i++;
+      components.set(type as ComponentType<any>, values);
+    }
+    prefab = new Prefab(name, components, []);
+  } else {
+    prefab = buildPrefab(dispatcher, name, def, baseName => {
+      const base = dispatcher.prefabs.get(baseName);
+      if (!base) throw new Error(`Unknown prefab ${baseName}`);
+      return base;
+    });
+  }
+  dispatcher.prefabs.set(name, prefab);
+  return prefab;
+}
+
+
+/**
+ * Defines a batch of prefabs from a document that maps prefab names to data-only descriptions.
+ * Prefabs can refer to each other in any order, as well as to previously defined prefabs.
+ */
+export function definePrefabs(dispatcher: Dispatcher, doc: Record<string, PrefabDef>): Prefab[] {
+  const prefabs = new Map<string, Prefab>();
+  const pending = new Set<string>();
+  const resolve = (name: string): Prefab => {
+    let prefab = prefabs.get(name);
+    if (prefab) return prefab;
+    if (!(name in doc)) {
+      prefab = dispatcher.prefabs.get(name);
+      if (!prefab) throw new Error(`Unknown prefab ${name}`);
+      return prefab;
+    }
+    if (pending.has(name)) throw new Error(`Prefab ${name} refers to itself`);
+    pending.add(name);
+    prefab = buildPrefab(dispatcher, name, doc[name], resolve);
+    pending.delete(name);
+    prefabs.set(name, prefab);
+    return prefab;
+  };
+  for (const name in doc) resolve(name);
+  for (const [name, prefab] of prefabs) dispatcher.prefabs.set(name, prefab);
+  return Array.from(prefabs.values());
+}
+
+
+function buildPrefab(
+  dispatcher: Dispatcher, name: string, def: PrefabDef, resolve: (name: string) => Prefab
+): Prefab {
+  const typesByName = new Map<string, ComponentType<any>>();
+  for (const type of dispatcher.registry.types) typesByName.set(type.name, type);
+  const components = new Map<ComponentType<any>, Record<string, unknown> | undefined>();
+  for (const typeName in def.components) {
+    const type = typesByName.get(typeName);
+    if (!type) throw new Error(`Prefab ${name} component type ${typeName} not defined in world`);
+    components.set(type, def.components[typeName] ?? undefined);
+  }
+  const children: PrefabChild[] = [];
+  for (const childDef of def.children ?? []) {
+    const child: PrefabChild = {prefab: resolve(childDef.prefab), overrides: childDef.overrides};
+    if (childDef.link) {
+      [child.linkTypeName, child.linkFieldName] = childDef.link.split('.');
+      CHECK: if (!child.linkFieldName || !child.prefab.__findType(child.linkTypeName)) {
+        throw new Error(
+          `Prefab ${name} child link ${childDef.link} must name a field of a component in ` +
+          `prefab ${childDef.prefab}`);
+      }
+    }
+    children.push(child);
+  }
+  if (def.extends) return resolve(def.extends).__extend(name, components, children);
+  return new Prefab(name, components, children);
+}
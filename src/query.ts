@@ -2,9 +2,14 @@ import {Bitset} from './datatypes/bitset';
 import type {ComponentType} from './component';
 import {Entity, EntityId, extendMaskAndSetFlag} from './entity';
 import type {SystemBox} from './system';
-import {ArrayEntityList, EntityList, PackedArrayEntityList} from './datatypes/entitylist';
+import type {QueryStats} from './stats';
+import {Children, getDepth, Parent} from './hierarchy';
+import {RefType} from './type';
+import {
+  ArrayEntityList, EntityGroups, EntityList, PackedArrayEntityList
+} from './datatypes/entitylist';
 
-type MaskKind = 'withMask' | 'withoutMask' | 'trackMask';
+type MaskKind = 'withMask' | 'withoutMask' | 'anyMask' | 'trackMask' | 'refreshMask';
 
 const enum QueryFlavor {
   current = 1, added = 2, removed = 4, changed = 8, addedOrChanged = 16, changedOrRemoved = 32,
@@ -12,12 +17,30 @@ const enum QueryFlavor {
 }
 
 type QueryFlavorName = keyof typeof QueryFlavor;
+type WhereOperator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+interface Join {
+  type: ComponentType<any>;
+  fieldName: string;
+  selectorId: number;
+  withMask: number[] | undefined;
+  withoutMask: number[] | undefined;
+  anyMask: number[] | undefined;
+}
 type TransientQueryFlavorName =
   'added' | 'removed' | 'changed' | 'addedOrChanged' | 'changedOrRemoved' | 'addedChangedOrRemoved';
 
 const transientFlavorsMask =
   QueryFlavor.added | QueryFlavor.removed | QueryFlavor.changed | QueryFlavor.addedOrChanged |
   QueryFlavor.changedOrRemoved | QueryFlavor.addedChangedOrRemoved;
+const whereOperators: Record<WhereOperator, (a: any, b: any) => boolean> = {
+  '<': (a, b) => a < b,
+  '<=': (a, b) => a <= b,
+  '>': (a, b) => a > b,
+  '>=': (a, b) => a >= b,
+  '==': (a, b) => a === b,
+  '!=': (a, b) => a !== b
+};
 const changedFlavorsMask =
   QueryFlavor.changed | QueryFlavor.addedOrChanged | QueryFlavor.changedOrRemoved |
   QueryFlavor.addedChangedOrRemoved;
@@ -28,16 +51,29 @@ export class QueryBox {
   flavors = 0;
   withMask: number[] | undefined;
   withoutMask: number[] | undefined;
+  anyMask: number[] | undefined;
   trackMask: number[] | undefined;
+  // Component types whose writes can change the query's membership, order or grouping, but that
+  // don't count as changes for the `changed` flavors unless they're also tracked.
+  refreshMask: number[] | undefined;
   hasTransientResults: boolean;
   hasChangedResults: boolean;
+  orderBy: ((entity: Entity) => number) | undefined;
+  hierarchical = false;
+  groupBy: {type: ComponentType<any>, fieldName: string} | undefined;
+  groups: EntityGroups | undefined;
+  predicates: {type: ComponentType<any>, test: (component: any) => boolean}[] | undefined;
+  joins: Join[] | undefined;
+  private sortNeeded = false;
+  private stats: QueryStats;
   private currentEntities: Bitset | undefined;
   private processedEntities: Bitset;
   private changedEntities: Bitset | undefined;
 
-  constructor(query: Query, private readonly system: SystemBox) {
+  constructor(readonly query: Query, private readonly system: SystemBox) {
     query.__results = this.results;
     query.__systemName = system.name;
+    STATS: this.stats = system.stats.addQuery();
   }
 
   complete(): void {
@@ -53,9 +89,21 @@ export class QueryBox {
         }
       }
     }
+    CHECK: if (this.anyMask && this.withoutMask) {
+      const minLength = Math.min(this.anyMask.length, this.withoutMask.length);
+      for (let i = 0; i < minLength; i++) {
+        if ((this.anyMask[i] & this.withoutMask[i]) !== 0) {
+          throw new Error(
+            'Query must not list a component type in both `withAny` and `without` clauses');
+        }
+      }
+    }
     CHECK: if (this.hasChangedResults && !this.trackMask) {
       throw new Error(`Query for changed entities must track at least one component`);
     }
+    CHECK: if (this.orderBy && !(this.flavors & QueryFlavor.current)) {
+      throw new Error('Query ordering only applies to the `current` list of entities');
+    }
     if (this.flavors & QueryFlavor.current) {
       this.results.current =
         new PackedArrayEntityList(dispatcher.registry.pool, dispatcher.maxEntities);
@@ -65,10 +113,15 @@ export class QueryBox {
     this.processedEntities = new Bitset(dispatcher.maxEntities);
     if (this.hasTransientResults) this.allocateTransientResultLists();
     if (this.flavors) this.system.shapeQueries.push(this);
-    if (this.hasChangedResults) {
-      this.changedEntities = new Bitset(dispatcher.maxEntities);
+    if (this.hasChangedResults) this.changedEntities = new Bitset(dispatcher.maxEntities);
+    if (this.groupBy) {
+      this.groups = new EntityGroups(dispatcher.registry.pool, dispatcher.maxEntities);
+      this.query.__groups = this.groups.groups;
+    }
+    if (this.hasChangedResults || this.orderBy && this.trackMask || this.refreshMask) {
       this.system.writeQueries.push(this);
     }
+    if (this.orderBy) this.system.sortedQueries.push(this);
   }
 
   private allocateTransientResultLists(): void {
@@ -101,19 +154,42 @@ export class QueryBox {
   clearAllResults(): void {
     this.clearTransientResults();
     this.results.current?.clear();
+    this.groups?.clear();
   }
 
   clearProcessedEntities(): void {
     this.processedEntities.clear();
   }
 
+  sortIfNeeded(): void {
+    if (!this.sortNeeded) return;
+    this.sortNeeded = false;
+    this.results.current!.sort(this.orderBy!);
+  }
+
   handleShapeUpdate(id: EntityId): void {
     if (this.processedEntities.get(id)) return;
     this.processedEntities.set(id);
-    const registry = this.system.dispatcher.registry;
+    STATS: this.stats.numProcessed += 1;
+    this.updateMembership(id);
+    if (this.orderBy && !this.sortNeeded && this.affectsOrder(id)) this.sortNeeded = true;
+    if (this.joins) {
+      // The entity may be the target of a joined ref, in which case its shape change can affect
+      // whether the entities referencing it match.
+      const indexer = this.system.dispatcher.indexer;
+      for (const join of this.joins) {
+        const sources = indexer.peekBackrefs(id, join.selectorId);
+        if (sources) for (const source of sources) this.updateMembership(source.__id);
+      }
+    }
+  }
+
+  private updateMembership(id: EntityId): void {
     const oldMatch = this.results.current?.has(id) ?? this.currentEntities!.get(id);
-    const newMatch = registry.matchShape(id, this.withMask, this.withoutMask);
+    const newMatch = this.matches(id);
+    if (this.orderBy && newMatch !== oldMatch) this.sortNeeded = true;
     if (newMatch && !oldMatch) {
+      this.groups?.add(id, this.readGroupKey(id));
       this.currentEntities?.set(id);
       this.changedEntities?.set(id);
       this.results.current?.add(id);
@@ -121,6 +197,7 @@ export class QueryBox {
       this.results.addedOrChanged?.add(id);
       this.results.addedChangedOrRemoved?.add(id);
     } else if (!newMatch && oldMatch) {
+      this.groups?.remove(id);
       this.currentEntities?.unset(id);
       this.changedEntities?.set(id);
       this.results.current?.remove(id);
@@ -131,10 +208,17 @@ export class QueryBox {
   }
 
   handleWrite(id: EntityId, componentFlagOffset: number, componentFlagMask: number): void {
-    if (!this.changedEntities!.get(id) &&
-      this.system.dispatcher.registry.matchShape(id, this.withMask, this.withoutMask) &&
-      (this.trackMask![componentFlagOffset] ?? 0) & componentFlagMask
-    ) {
+    STATS: this.stats.numProcessed += 1;
+    // A write to a component used in a where or through clause can make the entity join or leave
+    // the query.
+    const refresh = (this.refreshMask?.[componentFlagOffset] ?? 0) & componentFlagMask;
+    const tracked = (this.trackMask?.[componentFlagOffset] ?? 0) & componentFlagMask;
+    if ((this.predicates || this.joins) && refresh) this.updateMembership(id);
+    if (this.orderBy && !this.sortNeeded && (refresh || tracked) && this.affectsOrder(id)) {
+      this.sortNeeded = true;
+    }
+    if (this.groups?.has(id) && refresh) this.groups.update(id, this.readGroupKey(id));
+    if (this.hasChangedResults && tracked && !this.changedEntities!.get(id) && this.matches(id)) {
       this.changedEntities!.set(id);
       this.results.changed?.add(id);
       this.results.addedOrChanged?.add(id);
@@ -143,6 +227,99 @@ export class QueryBox {
     }
   }
 
+  private affectsOrder(id: EntityId): boolean {
+    if (this.results.current!.has(id)) return Boolean(this.trackMask || this.refreshMask);
+    // Moving an entity that's not in the list can still change the depth of its descendants.
+    return this.hierarchical &&
+      this.system.dispatcher.registry.hasShape(id, Children as ComponentType<any>, false);
+  }
+
+  private matches(id: EntityId): boolean {
+    const registry = this.system.dispatcher.registry;
+    if (!registry.matchShape(id, this.withMask, this.withoutMask, this.anyMask)) return false;
+    if (this.predicates) {
+      for (const {type, test} of this.predicates) {
+        if (!registry.hasShape(id, type, false) || !test(type.__bind!(id, false))) return false;
+      }
+    }
+    if (this.joins) {
+      for (const {type, fieldName, withMask, withoutMask, anyMask} of this.joins) {
+        if (!registry.hasShape(id, type, false)) return false;
+        const target = (type.__bind!(id, false) as any)[fieldName] as Entity | undefined;
+        if (!target || !registry.matchShape(target.__id, withMask, withoutMask, anyMask)) {
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+
+  private readGroupKey(id: EntityId): unknown {
+    const {type, fieldName} = this.groupBy!;
+    return (type.__bind!(id, false) as any)[fieldName];
+  }
+}
+
+
+/**
+ * A restricted query DSL for specifying which components the target of a ref followed by a
+ * `through` clause must have.
+ */
+export class JoinTargetBuilder {
+  __withMask: number[] | undefined;
+  __withoutMask: number[] | undefined;
+  __anyMask: number[] | undefined;
+  __types: ComponentType<any>[] = [];
+
+  /**
+   * A noop connector to make a query definition read better.
+   */
+  get and(): this {
+    return this;
+  }
+
+  /**
+   * A noop connector to make a query definition read better.
+   */
+  get but(): this {
+    return this;
+  }
+
+  /**
+   * Requires the target entity to possess components of all the given types.
+   * @param types The types of components required on the target.
+   */
+  with(...types: ComponentType<any>[]): this {
+    this.__withMask = this.extendMask(this.__withMask, types);
+    return this;
+  }
+
+  /**
+   * Requires the target entity not to possess components of any of the given types.
+   * @param types The types of components that must not be present on the target.
+   */
+  without(...types: ComponentType<any>[]): this {
+    this.__withoutMask = this.extendMask(this.__withoutMask, types);
+    return this;
+  }
+
+  /**
+   * Requires the target entity to possess a component of at least one of the given types.
+   * @param types The types of components of which at least one is required on the target.
+   */
+  withAny(...types: ComponentType<any>[]): this {
+    this.__anyMask = this.extendMask(this.__anyMask, types);
+    return this;
+  }
+
+  private extendMask(mask: number[] | undefined, types: ComponentType<any>[]): number[] {
+    if (!mask) mask = [];
+    for (const type of types) {
+      extendMaskAndSetFlag(mask, type);
+      if (!this.__types.includes(type)) this.__types.push(type);
+    }
+    return mask;
+  }
 }
 
 
@@ -150,7 +327,8 @@ export class QueryBox {
  * A fluent DSL for specifying a family of queries over the world's entities.
  *
  * Each query has a number of aspects:
- * 1. What components an entity must (`with`) and must not (`without`) have to be selected.
+ * 1. What components an entity must (`with`), must not (`without`), and must have at least one of
+ *    (`withAny`) to be selected.
  * 2. Whether to return all `current` entities that satisfy the query, only various deltas from the
  *    last frame (`added`, `removed`, `changed`, etc.).  It's permitted and encouraged to declare
  *    multiple such variants on a single query if needed.  For the delta queries, each entity will
@@ -173,7 +351,18 @@ export class QueryBuilder {
       this.__system = system;
       this.__query = new QueryBox(this.__userQuery, system);
       this.__callback(this);
-      if (!this.__query.withMask && this.__query.flavors) {
+      if (this.__query.orderBy) {
+        // Adding or removing a component the order depends on also calls for a re-sort.
+        const {trackMask, refreshMask} = this.__query;
+        for (const type of this.__system.dispatcher.registry.types) {
+          const {shapeOffset, shapeMask} = type.__binding!;
+          const flags = (trackMask?.[shapeOffset!] ?? 0) | (refreshMask?.[shapeOffset!] ?? 0);
+          if (flags & shapeMask!) {
+            this.categorize(this.__system.shapeQueriesByComponent, type);
+          }
+        }
+      }
+      if (!this.__query.withMask && !this.__query.anyMask && this.__query.flavors) {
         this.categorize(
           this.__system.shapeQueriesByComponent,
           this.__system.dispatcher.registry.Alive
@@ -292,6 +481,18 @@ export class QueryBuilder {
     return this;
   }
 
+  /**
+   * Constrains the query to entities that possess a component of at least one of the given types.
+   * Calling this more than once adds to the same set of types.  All given types are also marked as
+   * `read`.
+   * @param types The types of components of which at least one is required to match the query.
+   */
+  withAny(...types: ComponentType<any>[]): this {
+    this.set(this.__system.rwMasks.read, types);
+    this.set('anyMask');
+    return this;
+  }
+
   /**
    * Marks all the given component types as `read`.
    * @param types The types of components that the system will read, but that don't constrain the
@@ -302,6 +503,152 @@ export class QueryBuilder {
     return this;
   }
 
+  /**
+   * Keeps the `current` list of entities sorted in ascending order of a numeric key.  The list is
+   * only re-sorted when entities join or leave it, or when a tracked component of one of its
+   * entities gets added, removed or written to, so make sure to `track` all the components that the
+   * key depends on.
+   * @param key A function that computes an entity's sort key.  It can read any components the
+   * system declared as read.
+   */
+  orderBy(key: (entity: Entity) => number): this;
+
+  /**
+   * Keeps the `current` list of entities sorted in ascending order of a component's numeric field.
+   * The component type is automatically marked as `read`, and the list will be re-sorted whenever
+   * it's written to.  This doesn't make the type count as tracked for `changed` query flavors.
+   * @param type The type of component that holds the sort key.
+   * @param fieldName The name of the numeric field to sort by.
+   */
+  orderBy<C>(type: ComponentType<C>, fieldName: keyof C & string): this;
+
+  orderBy<C>(keyOrType: ((entity: Entity) => number) | ComponentType<C>, fieldName?: string): this {
+    if (fieldName) {
+      const type = keyOrType as ComponentType<C>;
+      this.set(this.__system.rwMasks.read, [type]);
+      this.set('refreshMask');
+      type.__binding!.trackedWrites = true;
+      this.__query.orderBy = (entity: Entity) => (entity.read(type) as any)[fieldName];
+    } else {
+      this.__query.orderBy = keyOrType as (entity: Entity) => number;
+    }
+    return this;
+  }
+
+  /**
+   * Keeps the `current` list of entities sorted so that parents always come before their children
+   * in the built-in hierarchy, with roots first, then their children, and so on.  The `Parent`
+   * component type is automatically marked as `read`, and the list will be re-sorted whenever an
+   * entity in the list or one of its ancestors gets moved to a new parent.
+   */
+  orderByHierarchy(): this {
+    this.set(this.__system.rwMasks.read, [Parent]);
+    this.set('refreshMask');
+    (Parent as ComponentType<any>).__binding!.trackedWrites = true;
+    this.__query.orderBy = getDepth;
+    this.__query.hierarchical = true;
+    return this;
+  }
+
+  /**
+   * Partitions the entities that match the query by the value of a component's field, and makes the
+   * resulting groups available as `query.groups`.  The groups are kept up to date incrementally as
+   * entities join or leave the query and as the field gets written to.  The component type is
+   * automatically marked as `read`, but doesn't count as tracked for `changed` query flavors.
+   * @param type The type of component that holds the grouping key.
+   * @param fieldName The name of the field whose value determines each entity's group; it should be
+   * a number, boolean, or string.
+   */
+  groupBy<C>(type: ComponentType<C>, fieldName: keyof C & string): this {
+    this.set(this.__system.rwMasks.read, [type]);
+    this.set('refreshMask');
+    type.__binding!.trackedWrites = true;
+    this.__query.groupBy = {type, fieldName};
+    return this;
+  }
+
+  /**
+   * Constrains the query to entities whose component of the given type satisfies a predicate.
+   * Entities that don't have such a component don't match.  The component type is automatically
+   * marked as `read`, and the predicate is re-evaluated whenever the component is written to, so it
+   * must only depend on that component's fields.
+   * @param type The type of component to test.
+   * @param predicate A function that returns whether the component satisfies the constraint.
+   */
+  where<C>(type: ComponentType<C>, predicate: (component: Readonly<C>) => boolean): this;
+
+  /**
+   * Constrains the query to entities whose component of the given type has a field that compares
+   * favorably to a constant value.  Entities that don't have such a component don't match.  The
+   * component type is automatically marked as `read`, and the query's membership is updated
+   * whenever the field gets written to.
+   * @param type The type of component to test.
+   * @param fieldName The name of the field to compare.
+   * @param operator The comparison operator; `==` and `!=` use strict equality.
+   * @param value The value to compare the field against.
+   */
+  where<C, K extends keyof C & string>(
+    type: ComponentType<C>, fieldName: K, operator: WhereOperator, value: C[K]): this;
+
+  where<C>(
+    type: ComponentType<C>, predicateOrFieldName: ((component: Readonly<C>) => boolean) | string,
+    operator?: WhereOperator, value?: unknown
+  ): this {
+    let test: (component: any) => boolean;
+    if (typeof predicateOrFieldName === 'string') {
+      const compare = whereOperators[operator!];
+      CHECK: if (!compare) throw new Error(`Unknown where clause operator: ${operator}`);
+      test = component => compare(component[predicateOrFieldName], value);
+    } else {
+      test = predicateOrFieldName;
+    }
+    this.set(this.__system.rwMasks.read, [type]);
+    this.set('refreshMask');
+    type.__binding!.trackedWrites = true;
+    this.categorize(this.__system.shapeQueriesByComponent, type);
+    if (!this.__query.predicates) this.__query.predicates = [];
+    this.__query.predicates.push({type, test});
+    return this;
+  }
+
+  /**
+   * Constrains the query to entities whose component of the given type has a ref field pointing to
+   * an entity that satisfies another set of constraints.  Entities that don't have such a
+   * component, or whose ref is unset, don't match.  The query is kept up to date as the ref gets
+   * reassigned and as the target entity's components change.  The source component type and all
+   * types mentioned in the target constraints are automatically marked as `read`.
+   * @param type The type of component that holds the ref.
+   * @param fieldName The name of the `Type.ref` field to follow.
+   * @param target A function that specifies the constraints the referenced entity must satisfy.
+   */
+  through<C>(
+    type: ComponentType<C>, fieldName: keyof C & string, target: (t: JoinTargetBuilder) => void
+  ): this {
+    const field = type.__binding!.fields.find(f => f.name === fieldName);
+    CHECK: if (!(field?.type instanceof RefType)) {
+      throw new Error(`Field ${type.name}.${fieldName} used in a through clause is not a ref`);
+    }
+    const builder = new JoinTargetBuilder();
+    target(builder);
+    this.set(this.__system.rwMasks.read, [type]);
+    this.set('refreshMask');
+    type.__binding!.trackedWrites = true;
+    this.categorize(this.__system.shapeQueriesByComponent, type);
+    if (builder.__types.length) {
+      this.set(this.__system.rwMasks.read, builder.__types);
+      for (const targetType of builder.__types) {
+        this.categorize(this.__system.shapeQueriesByComponent, targetType);
+      }
+    }
+    if (!this.__query.joins) this.__query.joins = [];
+    this.__query.joins.push({
+      type, fieldName,
+      selectorId: this.__system.dispatcher.indexer.registerSelector(undefined, type, field!.seq),
+      withMask: builder.__withMask, withoutMask: builder.__withoutMask, anyMask: builder.__anyMask
+    });
+    return this;
+  }
+
   /**
    * Marks the most recently mentioned component types as trackable for `changed` query flavors.
    */
@@ -343,8 +690,11 @@ export class QueryBuilder {
     }
     const readMask = mask === this.__system.rwMasks.read;
     const writeMask = mask === this.__system.rwMasks.write;
-    const shapeMask = mask === this.__query.withMask || mask === this.__query.withoutMask;
-    const trackMask = mask === this.__query.trackMask;
+    const shapeMask =
+      mask === this.__query.withMask || mask === this.__query.withoutMask ||
+      mask === this.__query.anyMask;
+    const writeTrackingMask =
+      mask === this.__query.trackMask || mask === this.__query.refreshMask;
     const map =
       readMask ? this.__system.dispatcher.planner.readers! :
         writeMask ? this.__system.dispatcher.planner.writers! : undefined;
@@ -352,7 +702,7 @@ export class QueryBuilder {
       extendMaskAndSetFlag(mask, type);
       if (map) map.get(type)!.add(this.__system);
       if (shapeMask) this.categorize(this.__system.shapeQueriesByComponent, type);
-      if (trackMask) this.categorize(this.__system.writeQueriesByComponent, type);
+      if (writeTrackingMask) this.categorize(this.__system.writeQueriesByComponent, type);
     }
   }
 
@@ -367,6 +717,7 @@ export class QueryBuilder {
 export class Query {
   __results: Partial<Record<QueryFlavorName, EntityList>> & {current?: PackedArrayEntityList};
   __systemName: string;
+  __groups: Map<unknown, Entity[]> | undefined;
 
   /**
    * A list of all entities that match this query as of the beginning of the system's current (or
@@ -450,6 +801,22 @@ export class Query {
     return this.__results.addedChangedOrRemoved!.entities;
   }
 
+  /**
+   * The entities that currently match this query, partitioned by the value of the field given to
+   * `groupBy` in the query definition.  Groups are removed from the map when they become empty.
+   *
+   * You must not keep a reference to these entities beyond the local scope of a system's execution.
+   * To obtain an object for long-term use please see {@link Entity.hold}.
+   */
+  get groups(): ReadonlyMap<unknown, readonly Entity[]> {
+    CHECK: if (!this.__groups) {
+      throw new Error(
+        `Query groups not configured, please add .groupBy to your query definition in ` +
+        `system ${this.__systemName}`);
+    }
+    return this.__groups!;
+  }
+
   private __checkList(flavor: QueryFlavorName): void {
     const list = this.__results[flavor];
     if (!list) {
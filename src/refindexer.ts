@@ -74,6 +74,10 @@ class Tracker {
     CHECK: checkMask(sourceType, this.registry.executingSystem, true);
     sourceType.__bind!(sourceId, true);
     sourceType.__binding!.fields[sourceSeq].clearRef!(final, this.targetEntityId, internalIndex);
+    // Clearing the ref is a write to the source component as far as queries are concerned.
+    if (!final && sourceType.__binding!.trackedWrites) {
+      this.registry.trackWrite(sourceId, sourceType);
+    }
   }
 
   trackReference(
@@ -150,7 +154,7 @@ class Tracker {
       const k = set.indexOf(tag);
       DEBUG: if (k === -1) throw new Error('Ref not tracked');
       set.splice(k, 1);
-      return !this.tags.length;
+      return !set.length;
     }
     set.delete(tag);
     return !set.size;
@@ -176,11 +180,13 @@ class Tracker {
   private removeEntity(index: number, entityId: EntityId, trackChanges: boolean): void {
     this.registry.pool.return(entityId);
     const lastEntity = this.entities.pop();
-    if (this.entityIndex) delete this.entityIndex[index];
+    if (this.entityIndex) delete this.entityIndex[entityId];
     if (this.entities.length > index) {
       this.entities[index] = lastEntity!;
+      if (this.tags) this.tags[index] = this.tags[this.entities.length];
       if (this.entityIndex) this.entityIndex[lastEntity!.__id] = index;
     }
+    if (this.tags) this.tags.length = this.entities.length;
     if (trackChanges) this.trackBackrefsChange();
   }
 
@@ -270,6 +276,10 @@ export class RefIndexer {
       selector, entityId, this.registry.includeRecentlyDeleted).entities;
   }
 
+  peekBackrefs(entityId: EntityId, selectorId: number): Entity[] | undefined {
+    return this.getTracker(this.selectors[selectorId], entityId, false)?.entities;
+  }
+
   trackRefChange(
     sourceId: EntityId, sourceType: ComponentType<any>, sourceSeq: number,
     sourceInternalIndex: number | undefined, oldTargetId: EntityId, newTargetId: EntityId,
@@ -3,7 +3,7 @@ import {Log, LogPointer} from './datatypes/log';
 import {SharedAtomicPool, Uint32Pool, UnsharedPool} from './datatypes/intpool';
 import type {Dispatcher} from './dispatcher';
 import {Entity, EntityId, EntityImpl} from './entity';
-import {COMPONENT_ID_MASK, ENTITY_ID_BITS, ENTITY_ID_MASK} from './consts';
+import {COMPONENT_ID_MASK, ENTITY_ID_BITS, ENTITY_ID_MASK, MAX_NUM_ENTITIES} from './consts';
 import type {SystemBox} from './system';
 import {AtomicSharedShapeArray, ShapeArray, UnsharedShapeArray} from './datatypes/shapearray';
 
@@ -64,6 +64,7 @@ export class Registry {
   private readonly staleShapes: ShapeArray;
   private readonly removedShapes: ShapeArray;
   private readonly entityIdPool: Uint32Pool;
+  private generations: Uint32Array;
   readonly pool: EntityPool;
   private readonly heldEntities: Entity[];
   executingSystem?: SystemBox;
@@ -89,6 +90,10 @@ export class Registry {
       new SharedAtomicPool(maxEntities, 'maxEntities', dispatcher.buffers) :
       new UnsharedPool(maxEntities, 'maxEntities');
     this.entityIdPool.fillWithDescendingIntegers(0);
+    dispatcher.buffers.register(
+      'registry.generations', maxEntities, Uint32Array,
+      (generations: Uint32Array) => {this.generations = generations;}
+    );
     this.pool = new EntityPool(this, maxEntities);
     CHECK: this.heldEntities = [];
     this.removalLog = new Log(maxLimboComponents, 'maxLimboComponents', dispatcher.buffers);
@@ -119,6 +124,21 @@ export class Registry {
     return entity;
   }
 
+  /**
+   * Rearranges the pool of free entity IDs so that subsequently created entities will be assigned
+   * the given IDs in order.  Only safe to call while there are no entities in the world.
+   */
+  reserveEntityIds(ids: EntityId[]): void {
+    const reserved = new Set(ids);
+    const freeIds = [];
+    for (let id = this.dispatcher.maxEntities - 1; id >= 0; id--) {
+      if (!reserved.has(id)) freeIds.push(id);
+    }
+    for (let i = ids.length - 1; i >= 0; i--) freeIds.push(ids[i]);
+    this.entityIdPool.clear();
+    this.entityIdPool.refill(freeIds);
+  }
+
   flush(): void {
     this.includeRecentlyDeleted = false;
     this.pool.returnTemporaryBorrows();
@@ -152,8 +172,10 @@ export class Registry {
         const type = this.types[componentId];
         if (!this.shapes.isSet(entityId, type) && !this.removedShapes.isSet(entityId, type)) {
           this.staleShapes.unset(entityId, type);
+          if (type.onRemove || type.onDelete) this.invokeRemovalHook(entityId, type);
           if (type === this.Alive) {
             indexer.clearAllRefs(entityId, true);
+            this.generations[entityId] += 1;
             this.entityIdPool.return(entityId);
             STATS: numDeletedEntities += 1;
           } else {
@@ -168,6 +190,12 @@ export class Registry {
     this.removalLog.createPointer(this.prevRemovalPointer);
   }
 
+  private invokeRemovalHook(id: EntityId, type: ComponentType<any>): void {
+    const hook = this.shapes.isSet(id, this.Alive) ?
+      type.onRemove : type.onDelete ?? type.onRemove;
+    hook?.call(type, type.__bind!(id, false));
+  }
+
   private invalidateDeletedHeldEntities(): void {
     let index = 0;
     let entityId;
@@ -180,6 +208,36 @@ export class Registry {
     }
   }
 
+  /**
+   * Returns the generation of the given entity ID, counting a deletion that hasn't been finalized
+   * yet as if it had.
+   */
+  getGeneration(id: EntityId): number {
+    const pendingDeletion =
+      !this.shapes.isSet(id, this.Alive) && this.staleShapes.isSet(id, this.Alive);
+    return this.generations[id] + (pendingDeletion ? 1 : 0);
+  }
+
+  setGeneration(id: EntityId, generation: number): void {
+    this.generations[id] = generation;
+  }
+
+  getStableId(id: EntityId): number {
+    return this.generations[id] * MAX_NUM_ENTITIES + id;
+  }
+
+  /**
+   * Returns the entity ID encoded in the given stable ID, or undefined if that entity has been
+   * deleted in the meantime (and its ID possibly reused for another entity).
+   */
+  resolveStableId(stableId: number): EntityId | undefined {
+    const id = stableId % MAX_NUM_ENTITIES;
+    const generation = Math.floor(stableId / MAX_NUM_ENTITIES);
+    if (id >= this.dispatcher.maxEntities || this.generations[id] !== generation) return;
+    if (!this.hasShape(id, this.Alive, false)) return;
+    return id;
+  }
+
   holdEntity(id: EntityId): Entity {
     let entity;
     CHECK: entity = this.heldEntities[id];
@@ -230,9 +288,12 @@ export class Registry {
     }
   }
 
-  matchShape(id: EntityId, positiveMask?: number[], negativeMask?: number[]): boolean {
+  matchShape(
+    id: EntityId, positiveMask?: number[], negativeMask?: number[], anyMask?: number[]
+  ): boolean {
     if (positiveMask && !this.shapes.match(id, positiveMask)) return false;
     if (negativeMask && !this.shapes.matchNot(id, negativeMask)) return false;
+    if (anyMask && !this.shapes.matchAny(id, anyMask)) return false;
     return true;
   }
 }
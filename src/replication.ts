@@ -0,0 +1,307 @@
+import type {ComponentType, Field} from './component';
+import {COMPONENT_ID_MASK, ENTITY_ID_BITS, ENTITY_ID_MASK} from './consts';
+import type {Log, LogPointer} from './datatypes/log';
+import type {Dispatcher} from './dispatcher';
+import type {Entity, EntityId} from './entity';
+import {BinaryReader, BinaryWriter, isSerializableField} from './serialization';
+
+const MAGIC = 0x42435352;  // 'BCSR'
+const VERSION = 1;
+
+const enum Op {
+  REMOVE = 0, SET = 1
+}
+
+interface ReplicatedType {
+  type: ComponentType<any>;
+  fields: Field<any>[];
+}
+
+interface DecodedType {
+  type: ComponentType<any>;
+  fieldNames: string[];
+}
+
+
+/**
+ * Turns the changes made to a world into compact binary diffs that can be applied to another world
+ * with a `ReplicationDecoder`.  The first diff includes all the world's entities; subsequent ones
+ * only include entities that were created or deleted, components that were added or removed, and
+ * field values that changed since the previous diff.  Fields of type `object` and `weakObject` are
+ * not replicated.
+ *
+ * The world must have been created with the `replicate` option, and you must encode a diff after
+ * every frame or the underlying logs will overflow.
+ */
+export class ReplicationEncoder {
+  private readonly types: ReplicatedType[] = [];
+  private readonly typeIndexById: number[] = [];
+  private readonly shapeLogPointer: LogPointer;
+  private readonly writeLogPointer: LogPointer;
+  private readonly writer = new BinaryWriter();
+  private readonly scratch = new BinaryWriter();
+  // Encoded field values last sent for each entity's components, indexed by type index.
+  private readonly sentValues = new Map<EntityId, Array<Uint8Array[] | undefined>>();
+  private primed = false;
+
+  constructor(private readonly dispatcher: Dispatcher) {
+    CHECK: if (!dispatcher.replicate) {
+      throw new Error('World must be created with the replicate option to encode diffs');
+    }
+    const registry = dispatcher.registry;
+    for (const type of registry.types) {
+      if (type === registry.Alive || type.options?.singleton) continue;
+      this.typeIndexById[type.id!] = this.types.length;
+      this.types.push({type, fields: type.__binding!.fields.filter(isSerializableField)});
+    }
+    this.shapeLogPointer = dispatcher.shapeLog.createPointer();
+    this.writeLogPointer = dispatcher.writeLog!.createPointer();
+  }
+
+  /**
+   * Encodes all the changes made to the world since the last call.  You can only invoke this method
+   * when the world is not executing.
+   * @returns The diff's bytes.
+   */
+  encode(): Uint8Array {
+    CHECK: if (this.dispatcher.executing) {
+      throw new Error('Cannot encode a replication diff while the world is executing');
+    }
+    const registry = this.dispatcher.registry;
+    const spawned = new Set<EntityId>();
+    const deleted = new Set<EntityId>();
+    const touched = new Map<EntityId, Set<number>>();
+    if (this.primed) {
+      this.processLog(this.dispatcher.shapeLog, this.shapeLogPointer, (id, typeId) => {
+        if (typeId === registry.Alive.id) {
+          if (registry.hasShape(id, registry.Alive, false)) spawned.add(id); else deleted.add(id);
+        } else {
+          this.touch(touched, id, typeId);
+        }
+      });
+      this.processLog(this.dispatcher.writeLog!, this.writeLogPointer, (id, typeId) => {
+        this.touch(touched, id, typeId);
+      });
+    } else {
+      for (let id = 0; id < this.dispatcher.maxEntities; id++) {
+        if (registry.hasShape(id, registry.Alive, false)) spawned.add(id);
+      }
+      this.dispatcher.shapeLog.createPointer(this.shapeLogPointer);
+      this.dispatcher.writeLog!.createPointer(this.writeLogPointer);
+    }
+
+    const writer = this.writer;
+    writer.reset();
+    writer.writeUint32(MAGIC);
+    writer.writeUint32(VERSION);
+    if (this.primed) {
+      writer.writeUint8(0);
+    } else {
+      writer.writeUint8(1);
+      writer.writeUint32(this.types.length);
+      for (const {type, fields} of this.types) {
+        writer.writeString(type.name);
+        writer.writeUint32(fields.length);
+        for (const field of fields) writer.writeString(field.name);
+      }
+      this.primed = true;
+    }
+
+    writer.writeUint32(deleted.size);
+    for (const id of deleted) {
+      writer.writeUint32(id);
+      this.sentValues.delete(id);
+    }
+    // Each world keeps its own singletons, so don't replicate the entity that holds them.
+    const singletonId = this.dispatcher.singleton?.__id;
+    if (singletonId !== undefined) spawned.delete(singletonId);
+    writer.writeUint32(spawned.size);
+    for (const id of spawned) {
+      writer.writeUint32(id);
+      this.sentValues.delete(id);
+    }
+    for (const id of spawned) {
+      for (let typeIndex = 0; typeIndex < this.types.length; typeIndex++) {
+        if (registry.hasShape(id, this.types[typeIndex].type, false)) {
+          this.writeComponent(id, typeIndex);
+        }
+      }
+    }
+    for (const [id, typeIndices] of touched) {
+      if (spawned.has(id) || !registry.hasShape(id, registry.Alive, false)) continue;
+      for (const typeIndex of typeIndices) {
+        if (registry.hasShape(id, this.types[typeIndex].type, false)) {
+          this.writeComponent(id, typeIndex);
+        } else {
+          writer.writeUint32(id);
+          writer.writeUint32(typeIndex);
+          writer.writeUint8(Op.REMOVE);
+          const sent = this.sentValues.get(id);
+          if (sent) sent[typeIndex] = undefined;
+        }
+      }
+    }
+    registry.pool.returnTemporaryBorrows();
+    return writer.result;
+  }
+
+  private touch(touched: Map<EntityId, Set<number>>, id: EntityId, typeId: number): void {
+    const typeIndex = this.typeIndexById[typeId];
+    if (typeIndex === undefined) return;  // singleton types aren't replicated
+    let typeIndices = touched.get(id);
+    if (!typeIndices) touched.set(id, typeIndices = new Set());
+    typeIndices.add(typeIndex);
+  }
+
+  private processLog(
+    log: Log, pointer: LogPointer, handler: (id: EntityId, typeId: number) => void
+  ): void {
+    let entries: Uint32Array | undefined;
+    let startIndex: number | undefined, endIndex: number | undefined;
+    while (true) {
+      [entries, startIndex, endIndex] = log.processSince(pointer);
+      if (!entries) break;
+      for (let i = startIndex!; i < endIndex!; i++) {
+        const entry = entries[i];
+        // Entries within a run still carry their component type, so we can skip the run headers.
+        if (entry & 2 ** 31) continue;
+        handler(entry & ENTITY_ID_MASK, (entry >>> ENTITY_ID_BITS) & COMPONENT_ID_MASK);
+      }
+    }
+  }
+
+  private writeComponent(id: EntityId, typeIndex: number): void {
+    const {type, fields} = this.types[typeIndex];
+    const component = type.__bind!(id, false) as any;
+    let sent = this.sentValues.get(id);
+    if (!sent) this.sentValues.set(id, sent = []);
+    const previous = sent[typeIndex];
+    const current: Uint8Array[] = [];
+    const changedFieldIndices = [];
+    for (let i = 0; i < fields.length; i++) {
+      this.scratch.reset();
+      this.scratch.writeValue(component[fields[i].name]);
+      current[i] = this.scratch.result;
+      if (!previous || !sameBytes(previous[i], current[i])) changedFieldIndices.push(i);
+    }
+    sent[typeIndex] = current;
+    if (previous && !changedFieldIndices.length) return;
+    const writer = this.writer;
+    writer.writeUint32(id);
+    writer.writeUint32(typeIndex);
+    writer.writeUint8(Op.SET);
+    writer.writeUint32(changedFieldIndices.length);
+    for (const i of changedFieldIndices) {
+      writer.writeUint32(i);
+      writer.writeBytes(current[i]);
+    }
+  }
+}
+
+
+/**
+ * Applies diffs produced by a `ReplicationEncoder` to a world.  Entities are matched up by their ID
+ * in the encoding world, but will usually get different IDs in the decoding world.  Component
+ * types and fields are matched up by name.
+ */
+export class ReplicationDecoder {
+  private types?: DecodedType[];
+  private readonly localIds = new Map<EntityId, EntityId>();
+
+  constructor(private readonly dispatcher: Dispatcher) {}
+
+  /**
+   * Applies a diff to the world.  Diffs must be applied in the order they were encoded, starting
+   * with the first one.  You can only invoke this method when the world is not executing.
+   * @param diff The diff's bytes.
+   */
+  decode(diff: Uint8Array): void {
+    CHECK: if (this.dispatcher.executing) {
+      throw new Error('Cannot decode a replication diff while the world is executing');
+    }
+    const registry = this.dispatcher.registry;
+    const reader = new BinaryReader(diff, id => this.borrow(id));
+    if (reader.readUint32() !== MAGIC) throw new Error('Not a becsy replication diff');
+    const version = reader.readUint32();
+    if (version !== VERSION) throw new Error(`Unsupported replication diff version ${version}`);
+    if (reader.readUint8()) {
+      this.types = this.readTypes(reader);
+      for (const localId of this.localIds.values()) {
+        registry.pool.borrowTemporarily(localId).delete();
+      }
+      this.localIds.clear();
+    }
+    const types = this.types;
+    if (!types) throw new Error('Replication diff applied before the initial one');
+
+    const numDeleted = reader.readUint32();
+    for (let i = 0; i < numDeleted; i++) {
+      const id = reader.readUint32();
+      this.borrow(id)?.delete();
+      this.localIds.delete(id);
+    }
+    const numSpawned = reader.readUint32();
+    for (let i = 0; i < numSpawned; i++) {
+      const id = reader.readUint32();
+      this.borrow(id)?.delete();
+      this.localIds.set(id, registry.createEntity([]).__id);
+    }
+    while (!reader.done) {
+      const entity = this.borrow(reader.readUint32());
+      const {type, fieldNames} = types[reader.readUint32()];
+      if (reader.readUint8() === Op.REMOVE) {
+        if (entity?.has(type)) entity.remove(type);
+        continue;
+      }
+      const values: Record<string, any> = {};
+      const numFields = reader.readUint32();
+      for (let i = 0; i < numFields; i++) {
+        const name = fieldNames[reader.readUint32()];
+        const value = reader.readValue();
+        if (type.schema?.[name]) values[name] = value;
+      }
+      if (!entity) continue;
+      if (entity.has(type)) {
+        Object.assign(entity.write(type), values);
+      } else {
+        entity.add(type, values);
+      }
+    }
+    this.dispatcher.flush();
+  }
+
+  private borrow(id: EntityId): Entity | undefined {
+    const localId = this.localIds.get(id);
+    if (localId === undefined) return;
+    const registry = this.dispatcher.registry;
+    if (!registry.hasShape(localId, registry.Alive, false)) {
+      this.localIds.delete(id);
+      return;
+    }
+    return registry.pool.borrowTemporarily(localId);
+  }
+
+  private readTypes(reader: BinaryReader): DecodedType[] {
+    const typesByName = new Map<string, ComponentType<any>>();
+    for (const type of this.dispatcher.registry.types) typesByName.set(type.name, type);
+    const types: DecodedType[] = [];
+    const numTypes = reader.readUint32();
+    for (let i = 0; i < numTypes; i++) {
+      const name = reader.readString();
+      const type = typesByName.get(name);
+      if (!type) throw new Error(`Replicated component type ${name} not defined in this world`);
+      const fieldNames = [];
+      const numFields = reader.readUint32();
+      for (let j = 0; j < numFields; j++) fieldNames.push(reader.readString());
+      types.push({type, fieldNames});
+    }
+    return types;
+  }
+}
+
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.byteLength !== b.byteLength) return false;
+  for (let i = 0; i < a.byteLength; i++) if (a[i] !== b[i]) return false;
+  return true;
+}
@@ -0,0 +1,82 @@
+/**
+ * An ordering constraint between two systems, as determined by the scheduler.
+ */
+export interface ScheduleEdge {
+  /**
+   * The name of the system that runs first, or of either system if the edge is `denied`.
+   */
+  from: string;
+
+  /**
+   * The name of the system that runs second, or of the other system if the edge is `denied`.
+   */
+  to: string;
+
+  /**
+   * Why the systems are ordered this way, e.g. `explicit before` or `writes Foo read by Bar`.
+   * Multiple reasons of equal priority are separated by semicolons.
+   */
+  reason: string;
+
+  /**
+   * Whether this edge records that the systems were explicitly left unordered, overriding any
+   * lower priority constraints between them.
+   */
+  denied: boolean;
+}
+
+
+/**
+ * A description of how a world's systems are ordered relative to each other, with the reason for
+ * each constraint.  Only constraints that survived prioritization are included, but transitively
+ * implied ones have not been pruned.
+ */
+export class ScheduleGraph {
+  constructor(readonly systems: string[], readonly edges: ScheduleEdge[]) {}
+
+  /**
+   * Renders the graph in Graphviz's DOT language.  Denied edges are drawn dashed and undirected.
+   * @returns The source of a DOT `digraph`.
+   */
+  toDot(): string {
+    const lines = ['digraph schedule {'];
+    for (const system of this.systems) lines.push(`  ${quoteDot(system)};`);
+    for (const edge of this.edges) {
+      const attributes = [`label=${quoteDot(edge.reason)}`];
+      if (edge.denied) attributes.push('style=dashed', 'dir=none');
+      lines.push(`  ${quoteDot(edge.from)} -> ${quoteDot(edge.to)} [${attributes.join(', ')}];`);
+    }
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  /**
+   * Renders the graph as a Mermaid flowchart.  Denied edges are drawn dotted and undirected.
+   * @returns The source of a Mermaid `flowchart`.
+   */
+  toMermaid(): string {
+    const lines = ['flowchart TD'];
+    const ids = new Map<string, string>();
+    for (const system of this.systems) {
+      const id = `s${ids.size}`;
+      ids.set(system, id);
+      lines.push(`  ${id}[${quoteMermaid(system)}]`);
+    }
+    for (const edge of this.edges) {
+      const arrow = edge.denied ? '-.-' : '-->';
+      const label = quoteMermaid(edge.reason);
+      lines.push(`  ${ids.get(edge.from)} ${arrow}|${label}| ${ids.get(edge.to)}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+
+function quoteDot(text: string): string {
+  return `"${text.replace(/"/g, '\\"')}"`;
+}
+
+// Mermaid doesn't support backslash escapes, only HTML-like entity codes.
+function quoteMermaid(text: string): string {
+  return `"${text.replace(/#/g, '#35;').replace(/"/g, '#quot;')}"`;
+}
@@ -1,10 +1,14 @@
 import type {Component, ComponentType} from './component';
 import {Graph} from './datatypes/graph';
 import type {Dispatcher} from './dispatcher';
+import type {Query} from './query';
+import {ScheduleGraph} from './schedulegraph';
 import type {System, SystemBox, SystemType} from './system';
 
-const now = typeof window !== 'undefined' && typeof window.performance !== 'undefined' ?
-  performance.now.bind(performance) : Date.now.bind(Date);
+// Node exposes a global performance object too, and Date.now's 1ms resolution is too coarse for
+// timing systems.
+export const now = typeof globalThis.performance === 'undefined' ?
+  Date.now.bind(Date) : globalThis.performance.now.bind(globalThis.performance);
 
 
 /**
@@ -53,7 +57,7 @@ export class ScheduleBuilder {
     for (const type of systemTypes) {
       for (const other of this.__dispatcher.getSystems(type)) {
         for (const system of this.__systems) {
-          this.__dispatcher.planner.graph.addEdge(system, other, 4);
+          this.__dispatcher.planner.graph.addEdge(system, other, 4, 'explicit before');
         }
       }
     }
@@ -69,7 +73,7 @@ export class ScheduleBuilder {
     for (const type of systemTypes) {
       for (const other of this.__dispatcher.getSystems(type)) {
         for (const system of this.__systems) {
-          this.__dispatcher.planner.graph.addEdge(other, system, 4);
+          this.__dispatcher.planner.graph.addEdge(other, system, 4, 'explicit after');
         }
       }
     }
@@ -85,13 +89,58 @@ export class ScheduleBuilder {
     for (const type of systemTypes) {
       for (const other of this.__dispatcher.getSystems(type)) {
         for (const system of this.__systems) {
-          this.__dispatcher.planner.graph.denyEdge(system, other, 3);
+          this.__dispatcher.planner.graph.denyEdge(system, other, 3, 'inAnyOrderWith denied');
         }
       }
     }
     return this;
   }
 
+  /**
+   * Only run this system in frames where the given condition holds.  The condition is checked right
+   * before the system would execute, and if it fails the system's `execute` method is skipped
+   * (e.g., while the game is paused).
+   *
+   * The system's queries are still updated while it's skipped, so its `current` lists are accurate
+   * when it resumes, but entities that were added, removed or changed in frames where it was
+   * skipped won't be reported to it.  To avoid even the query updates over long stretches, stop the
+   * system with `world.control` instead.
+   * @param condition A function that returns whether the system should run this frame.  It can read
+   * any components the system declared as read, such as singletons.
+   * @returns The builder for chaining calls.
+   */
+  runIf(condition: () => boolean): this;
+
+  /**
+   * Only run this system in frames where the given query's `current` list is not empty.  The
+   * system's queries are updated first, but if the condition fails the system's `execute` method is
+   * skipped and any entities that were added, removed or changed in the meantime won't be reported
+   * to it.
+   * @param query One of the system's own queries, with a `current` list.
+   * @returns The builder for chaining calls.
+   */
+  runIf(query: Query): this;
+
+  runIf(conditionOrQuery: (() => boolean) | Query): this {
+    if (typeof conditionOrQuery === 'function') {
+      for (const system of this.__systems) system.runConditions.push(conditionOrQuery);
+      return this;
+    }
+    const query = conditionOrQuery;
+    CHECK: {
+      for (const system of this.__systems) {
+        if (!system.ownsQuery(query)) {
+          throw new Error(`Query used as a run condition must belong to system ${system.name}`);
+        }
+      }
+      if (!query.__results.current) {
+        throw new Error('Query used as a run condition must have a current list');
+      }
+    }
+    for (const system of this.__systems) system.runQueryConditions.push(query);
+    return this;
+  }
+
   /**
    * Schedule this system before all other systems that declared a read dependency on the given
    * component types (medium priority).
@@ -102,7 +151,8 @@ export class ScheduleBuilder {
     for (const componentType of componentTypes) {
       for (const other of this.__dispatcher.planner.readers!.get(componentType)!) {
         for (const system of this.__systems) {
-          this.__dispatcher.planner.graph.addEdge(system, other, 2);
+          this.__dispatcher.planner.graph.addEdge(
+            system, other, 2, `before reads from ${componentType.name}`);
         }
       }
     }
@@ -119,7 +169,8 @@ export class ScheduleBuilder {
     for (const componentType of componentTypes) {
       for (const other of this.__dispatcher.planner.readers!.get(componentType)!) {
         for (const system of this.__systems) {
-          this.__dispatcher.planner.graph.addEdge(other, system, 2);
+          this.__dispatcher.planner.graph.addEdge(
+            other, system, 2, `after reads from ${componentType.name}`);
         }
       }
     }
@@ -136,7 +187,8 @@ export class ScheduleBuilder {
     for (const componentType of componentTypes) {
       for (const other of this.__dispatcher.planner.writers!.get(componentType)!) {
         for (const system of this.__systems) {
-          this.__dispatcher.planner.graph.addEdge(system, other, 2);
+          this.__dispatcher.planner.graph.addEdge(
+            system, other, 2, `before writes to ${componentType.name}`);
         }
       }
     }
@@ -153,7 +205,8 @@ export class ScheduleBuilder {
     for (const componentType of componentTypes) {
       for (const other of this.__dispatcher.planner.writers!.get(componentType)!) {
         for (const system of this.__systems) {
-          this.__dispatcher.planner.graph.addEdge(other, system, 2);
+          this.__dispatcher.planner.graph.addEdge(
+            other, system, 2, `after writes to ${componentType.name}`);
         }
       }
     }
@@ -176,6 +229,11 @@ export class SystemGroupImpl {
   __executed = false;
   __systems: SystemBox[];
   __scheduleBuilder: ScheduleBuilder | undefined | null;
+  __fixedStep: number | undefined;
+  __maxFixedSteps: number;
+  __alpha = 0;
+  private __accumulator = 0;
+  private __fixedTime: number | undefined;
 
   constructor(readonly __contents: GroupContentsArray) { }
 
@@ -215,6 +273,48 @@ export class SystemGroupImpl {
     this.__scheduleBuilder = new ScheduleBuilder(buildCallback, new Schedule());
     return this;
   }
+
+  /**
+   * Makes the group run on a fixed timestep, e.g. for deterministic physics.  Each time the group
+   * is executed its frame's `delta` gets added to an accumulator, and the group's systems are run
+   * once for every whole step that has accumulated -- possibly zero times -- with `time` advancing
+   * by exactly `step` and `delta` set to `step`.  Whatever time is left over is exposed to all
+   * systems as {@link System.alpha}, for interpolating between the last two steps when rendering.
+   *
+   * This only takes effect when running the group through a custom executor, since
+   * `world.execute` runs all systems as one implicit group; calling `world.execute` on a world with
+   * a fixed step group throws an error.
+   * @param step The duration of each step, in the same units as `delta`.
+   * @param maxStepsPerFrame The most steps to run in a single execution.  If the accumulator holds
+   * more than that, e.g. after a long stall, the excess time is dropped so the group doesn't fall
+   * ever further behind.
+   * @returns This group for chaining calls.
+   */
+  fixedStep(step: number, maxStepsPerFrame = 5): this {
+    CHECK: if (!(step > 0)) throw new Error(`Fixed step must be greater than zero: got ${step}`);
+    CHECK: if (!(maxStepsPerFrame >= 1)) {
+      throw new Error(`Max fixed steps per frame must be at least 1: got ${maxStepsPerFrame}`);
+    }
+    this.__fixedStep = step;
+    this.__maxFixedSteps = maxStepsPerFrame;
+    return this;
+  }
+
+  __execute(time: number, delta: number): Promise<void> {
+    if (this.__fixedStep === undefined) return this.__plan.execute(time, delta);
+    const step = this.__fixedStep;
+    if (this.__fixedTime === undefined) this.__fixedTime = time;
+    this.__accumulator += delta;
+    const promises: Promise<void>[] = [];
+    for (let i = 0; i < this.__maxFixedSteps && this.__accumulator >= step; i++) {
+      promises.push(this.__plan.execute(this.__fixedTime, step));
+      this.__fixedTime += step;
+      this.__accumulator -= step;
+    }
+    if (this.__accumulator >= step) this.__accumulator %= step;
+    this.__alpha = this.__accumulator / step;
+    return Promise.all(promises).then(() => undefined);
+  }
 }
 
 // eslint-disable-next-line @typescript-eslint/no-empty-interface
@@ -248,6 +348,7 @@ export class FrameImpl {
     CHECK: if (this.executing) throw new Error('Frame already executing');
     CHECK: if (this.dispatcher.executing) throw new Error('Another frame already executing');
     this.executing = this.dispatcher.executing = true;
+    this.dispatcher.tracer?.begin('frame', 'frame');
     const lastTime = this.dispatcher.lastTime ?? this.time;
     this.time = now() / 1000;
     this.delta = this.time - lastTime;
@@ -268,6 +369,8 @@ export class FrameImpl {
       this.dispatcher.completeCycle();
     }
     this.dispatcher.completeFrame();
+    this.dispatcher.traceCounters();
+    this.dispatcher.tracer?.end('frame', 'frame');
   }
 
   /**
@@ -290,7 +393,12 @@ export class FrameImpl {
   execute(group: SystemGroup, time?: number, delta?: number): Promise<void> {
     CHECK: if (!this.groups.includes(group)) throw new Error('Group not included in this frame');
     CHECK: if (!this.executing) throw new Error('Frame not executing');
-    return group.__plan.execute(time ?? this.time, delta ?? this.delta);
+    const tracer = this.dispatcher.tracer;
+    tracer?.begin('group', 'group', {systems: group.__systems.map(system => system.name)});
+    const promise = group.__execute(time ?? this.time, delta ?? this.delta);
+    tracer?.end('group', 'group');
+    if (group.__fixedStep !== undefined) this.dispatcher.alpha = group.__alpha;
+    return promise;
   }
 }
 
@@ -311,6 +419,12 @@ export abstract class Plan {
   }
 
   abstract execute(time: number, delta: number): Promise<void>;
+
+  protected applyGroupCommands(): void {
+    let applied = false;
+    for (const system of this.group.__systems) applied = system.applyGroupCommands() || applied;
+    if (applied) this.planner.dispatcher.flush();
+  }
 }
 
 
@@ -338,6 +452,7 @@ class SimplePlan extends Plan {
       dispatcher.flush();
     }
     registry.executingSystem = undefined;
+    this.applyGroupCommands();
     return Promise.resolve();
   }
 
@@ -375,7 +490,8 @@ export class Planner {
     for (const [componentType, systems] of this.readers!.entries()) {
       for (const reader of systems) {
         for (const writer of this.writers!.get(componentType)!) {
-          this.graph.addEdge(writer, reader, 1);
+          this.graph.addEdge(
+            writer, reader, 1, `writes ${componentType.name} read by ${reader.name}`);
         }
       }
     }
@@ -387,4 +503,16 @@ export class Planner {
     }
   }
 
+  describe(): ScheduleGraph {
+    // Leave out the internal system that runs world.build callbacks.
+    const systems = this.systems.filter(system => system.id !== 0);
+    const edges = this.graph.labelledEdges
+      .filter(edge => systems.includes(edge.source) && systems.includes(edge.target))
+      .map(edge => ({
+        from: edge.source.name, to: edge.target.name, reason: edge.label ?? '',
+        denied: edge.weight < 0
+      }));
+    return new ScheduleGraph(systems.map(system => system.name), edges);
+  }
+
 }
@@ -0,0 +1,205 @@
+import type {Field} from './component';
+import {Entity, EntityId, EntityImpl} from './entity';
+import {EMPTY_ARRAY, Type} from './type';
+
+const enum Tag {
+  UNDEFINED = 0, NUMBER = 1, FALSE = 2, TRUE = 3, STRING = 4, REF = 5, ARRAY = 6, STRUCT = 7,
+  REFS = 8
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+
+/**
+ * Returns whether a field's values can be written out by a `BinaryWriter`.  Backrefs are computed
+ * from the refs that point at them, and objects can't be serialized.
+ */
+export function isSerializableField(field: Field<any>): boolean {
+  return field.default !== EMPTY_ARRAY &&
+    field.type !== Type.object && field.type !== Type.weakObject;
+}
+
+
+function isNumberArray(value: ArrayLike<unknown>): boolean {
+  for (let i = 0; i < value.length; i++) if (typeof value[i] !== 'number') return false;
+  return true;
+}
+
+
+/**
+ * A growable byte buffer for encoding field values.  Values are tagged with their kind so they can
+ * be decoded by a `BinaryReader` without knowing the field's type.
+ */
+export class BinaryWriter {
+  private bytes = new Uint8Array(1024);
+  private view = new DataView(this.bytes.buffer);
+  private offset = 0;
+
+  get result(): Uint8Array {
+    return this.bytes.slice(0, this.offset);
+  }
+
+  reset(): void {
+    this.offset = 0;
+  }
+
+  private reserve(length: number): void {
+    if (this.offset + length <= this.bytes.length) return;
+    let capacity = this.bytes.length * 2;
+    while (capacity < this.offset + length) capacity *= 2;
+    const bytes = new Uint8Array(capacity);
+    bytes.set(this.bytes);
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer);
+  }
+
+  writeUint8(value: number): void {
+    this.reserve(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  writeUint32(value: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  writeFloat64(value: number): void {
+    this.reserve(8);
+    this.view.setFloat64(this.offset, value, true);
+    this.offset += 8;
+  }
+
+  writeBytes(bytes: Uint8Array): void {
+    this.reserve(bytes.byteLength);
+    this.bytes.set(bytes, this.offset);
+    this.offset += bytes.byteLength;
+  }
+
+  writeString(value: string): void {
+    const utf8 = encoder.encode(value);
+    this.writeUint32(utf8.byteLength);
+    this.reserve(utf8.byteLength);
+    this.bytes.set(utf8, this.offset);
+    this.offset += utf8.byteLength;
+  }
+
+  writeValue(value: any): void {
+    if (value === undefined || value === null) {
+      this.writeUint8(Tag.UNDEFINED);
+    } else if (typeof value === 'number') {
+      this.writeUint8(Tag.NUMBER);
+      this.writeFloat64(value);
+    } else if (typeof value === 'boolean') {
+      this.writeUint8(value ? Tag.TRUE : Tag.FALSE);
+    } else if (typeof value === 'string') {
+      this.writeUint8(Tag.STRING);
+      this.writeString(value);
+    } else if (value instanceof EntityImpl) {
+      this.writeUint8(Tag.REF);
+      this.writeUint32(value.__id);
+    } else if (typeof value.length === 'number' && !isNumberArray(value)) {
+      this.writeUint8(Tag.REFS);
+      this.writeUint32(value.length);
+      for (let i = 0; i < value.length; i++) this.writeUint32(value[i]?.__id ?? 2 ** 32 - 1);
+    } else if (typeof value.length === 'number') {
+      this.writeUint8(Tag.ARRAY);
+      this.writeUint32(value.length);
+      for (let i = 0; i < value.length; i++) this.writeFloat64(value[i]);
+    } else {
+      const keys = [];
+      for (const key in value) keys.push(key);
+      this.writeUint8(Tag.STRUCT);
+      this.writeUint32(keys.length);
+      for (const key of keys) {
+        this.writeString(key);
+        this.writeValue(value[key]);
+      }
+    }
+  }
+}
+
+
+/**
+ * Decodes values encoded by a `BinaryWriter`, resolving entity refs through the given function.
+ */
+export class BinaryReader {
+  private readonly view: DataView;
+  private offset = 0;
+
+  constructor(
+    private readonly bytes: Uint8Array,
+    private readonly resolveRef: (id: EntityId) => Entity | undefined
+  ) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  readUint8(): number {
+    const value = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  readUint32(): number {
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  readFloat64(): number {
+    const value = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  get done(): boolean {
+    return this.offset >= this.bytes.byteLength;
+  }
+
+  readString(): string {
+    const length = this.readUint32();
+    const value = decoder.decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+
+  readValue(): any {
+    const tag = this.readUint8();
+    switch (tag) {
+      case Tag.UNDEFINED: return;
+      case Tag.NUMBER: return this.readFloat64();
+      case Tag.FALSE: return false;
+      case Tag.TRUE: return true;
+      case Tag.STRING: return this.readString();
+      case Tag.REF: return this.resolveRef(this.readUint32());
+      case Tag.ARRAY: {
+        const length = this.readUint32();
+        const value = new Array(length);
+        for (let i = 0; i < length; i++) value[i] = this.readFloat64();
+        return value;
+      }
+      case Tag.REFS: {
+        const length = this.readUint32();
+        const value = new Array(length);
+        for (let i = 0; i < length; i++) {
+          const id = this.readUint32();
+          value[i] = id === 2 ** 32 - 1 ? undefined : this.resolveRef(id);
+        }
+        return value;
+      }
+      case Tag.STRUCT: {
+        const count = this.readUint32();
+        const value: Record<string, any> = {};
+        for (let i = 0; i < count; i++) {
+          const key = this.readString();
+          value[key] = this.readValue();
+        }
+        return value;
+      }
+      default:
+        throw new Error(`Corrupt snapshot: unknown value tag ${tag}`);
+    }
+  }
+}
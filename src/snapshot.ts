@@ -0,0 +1,120 @@
+import type {ComponentType} from './component';
+import type {Dispatcher} from './dispatcher';
+import type {EntityId} from './entity';
+import {BinaryReader, BinaryWriter, isSerializableField} from './serialization';
+
+const MAGIC = 0x42435359;  // 'BCSY'
+const VERSION = 2;
+
+
+/**
+ * Serializes all live entities in the world, along with their components' field values, into a
+ * binary blob.  Component types and fields are identified by name, so the snapshot can be restored
+ * into a world whose defs were declared in a different order.  Entity ID generations are saved
+ * too, so stable IDs remain valid after restoring.  Fields of type `object` and `weakObject` are
+ * not included.
+ */
+export function takeSnapshot(dispatcher: Dispatcher): Uint8Array {
+  CHECK: if (dispatcher.executing) {
+    throw new Error('Cannot take a snapshot while the world is executing');
+  }
+  const registry = dispatcher.registry;
+  const types = registry.types.filter(type => type !== registry.Alive);
+  const writer = new BinaryWriter();
+  writer.writeUint32(MAGIC);
+  writer.writeUint32(VERSION);
+  writer.writeUint32(types.length);
+  for (const type of types) {
+    const fields = type.__binding!.fields.filter(isSerializableField);
+    writer.writeString(type.name);
+    writer.writeUint32(fields.length);
+    for (const field of fields) writer.writeString(field.name);
+  }
+  const ids: EntityId[] = [];
+  for (let id = 0; id < dispatcher.maxEntities; id++) {
+    if (registry.hasShape(id, registry.Alive, false)) ids.push(id);
+  }
+  writer.writeUint32(ids.length);
+  for (const id of ids) writer.writeUint32(id);
+  const generationIds: EntityId[] = [];
+  for (let id = 0; id < dispatcher.maxEntities; id++) {
+    if (registry.getGeneration(id)) generationIds.push(id);
+  }
+  writer.writeUint32(generationIds.length);
+  for (const id of generationIds) {
+    writer.writeUint32(id);
+    writer.writeUint32(registry.getGeneration(id));
+  }
+  for (const id of ids) {
+    const present = types.filter(type => registry.hasShape(id, type, false));
+    writer.writeUint32(present.length);
+    for (const type of present) {
+      const fields = type.__binding!.fields.filter(isSerializableField);
+      const component = type.__bind!(id, false) as any;
+      writer.writeUint32(types.indexOf(type));
+      for (const field of fields) writer.writeValue(component[field.name]);
+    }
+  }
+  registry.pool.returnTemporaryBorrows();
+  return writer.result;
+}
+
+
+/**
+ * Recreates all the entities from a snapshot taken by `takeSnapshot`, keeping their original IDs.
+ * Must be called on a freshly created world that doesn't have any entities yet.
+ */
+export function restoreSnapshot(dispatcher: Dispatcher, snapshot: Uint8Array): void {
+  const registry = dispatcher.registry;
+  const reader = new BinaryReader(
+    snapshot, id => registry.pool.borrowTemporarily(id));
+  if (reader.readUint32() !== MAGIC) throw new Error('Not a becsy snapshot');
+  const version = reader.readUint32();
+  if (version !== VERSION) throw new Error(`Unsupported snapshot version ${version}`);
+  const typesByName = new Map<string, ComponentType<any>>();
+  for (const type of registry.types) typesByName.set(type.name, type);
+  const types: {type: ComponentType<any>, fieldNames: string[]}[] = [];
+  const numTypes = reader.readUint32();
+  for (let i = 0; i < numTypes; i++) {
+    const name = reader.readString();
+    const type = typesByName.get(name);
+    if (!type) throw new Error(`Snapshot component type ${name} not defined in this world`);
+    const fieldNames = [];
+    const numFields = reader.readUint32();
+    for (let j = 0; j < numFields; j++) fieldNames.push(reader.readString());
+    types.push({type, fieldNames});
+  }
+  const ids: EntityId[] = [];
+  const numEntities = reader.readUint32();
+  for (let i = 0; i < numEntities; i++) {
+    const id = reader.readUint32();
+    if (id >= dispatcher.maxEntities) {
+      throw new Error(`Snapshot entity ID ${id} exceeds maxEntities ${dispatcher.maxEntities}`);
+    }
+    ids.push(id);
+  }
+  const numGenerations = reader.readUint32();
+  for (let i = 0; i < numGenerations; i++) {
+    const id = reader.readUint32();
+    const generation = reader.readUint32();
+    // Slots beyond maxEntities were free in the snapshot, so their generations don't matter.
+    if (id < dispatcher.maxEntities) registry.setGeneration(id, generation);
+  }
+  // Create all entities up front so that refs can be set to any of them.
+  registry.reserveEntityIds(ids);
+  for (let i = 0; i < ids.length; i++) registry.createEntity([]);
+  for (const id of ids) {
+    const entity = registry.pool.borrowTemporarily(id);
+    const numComponents = reader.readUint32();
+    for (let i = 0; i < numComponents; i++) {
+      const {type, fieldNames} = types[reader.readUint32()];
+      const values: Record<string, any> = {};
+      for (const name of fieldNames) {
+        const value = reader.readValue();
+        if (type.schema?.[name]) values[name] = value;
+      }
+      entity.add(type, values);
+    }
+  }
+  dispatcher.flush();
+}
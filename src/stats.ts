@@ -1,4 +1,5 @@
 import type {ComponentType} from './component';
+import type {System} from './system';
 
 class ComponentStats {
   _numEntities = 0;
@@ -23,6 +24,71 @@ class ComponentStats {
 
 const internalComponentStats = new ComponentStats();
 
+export class QueryStats {
+  numProcessed = 0;
+  maxProcessed = 0;
+
+  toString(): string {
+    /* eslint-disable max-len */
+    return `${this.numProcessed.toLocaleString()} entities processed (max ${this.maxProcessed.toLocaleString()})`;
+    /* eslint-enable max-len */
+  }
+}
+
+export class SystemStats {
+  numExecutions = 0;
+  numSkips = 0;
+  lastDuration = 0;
+  maxDuration = 0;
+  lastQueryDuration = 0;
+  private totalDuration = 0;
+  private totalQueryDuration = 0;
+  readonly queries: QueryStats[] = [];
+
+  get meanDuration(): number {
+    return this.numExecutions ? this.totalDuration / this.numExecutions : 0;
+  }
+
+  get meanQueryDuration(): number {
+    return this.numExecutions ? this.totalQueryDuration / this.numExecutions : 0;
+  }
+
+  addQuery(): QueryStats {
+    const queryStats = new QueryStats();
+    this.queries.push(queryStats);
+    return queryStats;
+  }
+
+  startExecution(): void {
+    for (const queryStats of this.queries) queryStats.numProcessed = 0;
+  }
+
+  recordQueries(duration: number): void {
+    this.lastQueryDuration = duration;
+    this.totalQueryDuration += duration;
+    for (const queryStats of this.queries) {
+      if (queryStats.numProcessed > queryStats.maxProcessed) {
+        queryStats.maxProcessed = queryStats.numProcessed;
+      }
+    }
+  }
+
+  recordExecution(duration: number): void {
+    this.numExecutions += 1;
+    this.lastDuration = duration;
+    this.totalDuration += duration;
+    if (duration > this.maxDuration) this.maxDuration = duration;
+  }
+
+  toString(): string {
+    /* eslint-disable max-len */
+    return `${this.lastDuration.toFixed(2)}ms last, ${this.meanDuration.toFixed(2)}ms mean, ${this.maxDuration.toFixed(2)}ms max (${this.meanQueryDuration.toFixed(2)}ms mean in queries), ${this.numExecutions.toLocaleString()} runs, ${this.numSkips.toLocaleString()} skips`;
+    /* eslint-enable max-len */
+  }
+}
+
+const internalSystemStats = new SystemStats();
+
 export class Stats {
   frames = 0;
   private _numEntities = 0;
@@ -32,6 +98,7 @@ export class Stats {
   private _maxShapeChangesPerFrame = 0;
   private _maxWritesPerFrame = 0;
   components: {[typeName: string]: ComponentStats} = Object.create(null);
+  systems: {[systemName: string]: SystemStats} = Object.create(null);
 
   get maxEntities(): number {
     return this._maxEntities;
@@ -83,6 +150,11 @@ export class Stats {
     return this.components[type.name] = this.components[type.name] ?? new ComponentStats();
   }
 
+  forSystem(system: System): SystemStats {
+    if (system.id === 0) return internalSystemStats;
+    return this.systems[system.name] = this.systems[system.name] ?? new SystemStats();
+  }
+
   toString(): string {
     /* eslint-disable max-len */
     return `World stats:
@@ -94,6 +166,12 @@ export class Stats {
     Object.keys(this.components).map(name => {
       const compStats = this.components[name];
       return `    ${name}: ${compStats.numEntities} (max ${compStats.maxEntities})`;
+    }).join('\n') +
+    '\n  systems:\n' +
+    Object.keys(this.systems).map(name => {
+      const systemStats = this.systems[name];
+      return `    ${name}: ${systemStats}` + systemStats.queries.map(
+        (queryStats, i) => `\n      query ${i}: ${queryStats}`).join('');
     }).join('\n');
     /* eslint-enable max-len */
   }
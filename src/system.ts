@@ -5,9 +5,12 @@ import {COMPONENT_ID_MASK, ENTITY_ID_BITS, ENTITY_ID_MASK} from './consts';
 import type {World} from './world';  // eslint-disable-line @typescript-eslint/no-unused-vars
 import {Query, QueryBox, QueryBuilder} from './query';
 import type {ComponentType} from './component';
+import type {Prefab, PrefabOverrides} from './prefab';
+import {CommandBuffer} from './commands';
 import {
-  GroupContentsArray, Schedule, ScheduleBuilder, SystemGroup, SystemGroupImpl
+  GroupContentsArray, now, Schedule, ScheduleBuilder, SystemGroup, SystemGroupImpl
 } from './schedules';
+import type {SystemStats} from './stats';
 
 
 export interface SystemType<S extends System> {
@@ -63,6 +66,29 @@ export abstract class System {
    */
   delta: number;
 
+  /**
+   * How far along the world is between the last and next steps of the most recently executed
+   * fixed-step group, as a fraction between 0 (inclusive) and 1 (exclusive).  Use it to interpolate
+   * between the states computed by fixed-step systems when rendering.  It's always 0 if no groups
+   * have a fixed step.  See {@link SystemGroup.fixedStep} for details.
+   */
+  get alpha(): number {
+    return this.__dispatcher.alpha;
+  }
+
+  /**
+   * A buffer for structural changes -- creating and deleting entities, adding and removing
+   * components -- that will be applied at a later sync point rather than immediately.  See
+   * {@link CommandBuffer} for details.
+   * @example
+   * execute() {
+   *   for (const entity of this.entities.current) {
+   *     if (entity.read(Health).value <= 0) this.commands.delete(entity);
+   *   }
+   * }
+   */
+  readonly commands = new CommandBuffer();
+
   /**
    * This system's name, as used in error messages and stats reports.
    */
@@ -141,8 +167,50 @@ export abstract class System {
    * interleaved with their initial properties.
    * @returns The newly created entity.
    */
-  createEntity(...initialComponents: (ComponentType<any> | Record<string, unknown>)[]): Entity {
-    return this.__dispatcher.createEntity(initialComponents);
+  createEntity(...initialComponents: (ComponentType<any> | Record<string, unknown>)[]): Entity;
+
+  /**
+   * Creates a new entity from a prefab, along with any child entities the prefab specifies.  You
+   * *must not* retain a direct reference to the entity past the end of the `execute` method.
+   * @param prefab The prefab to instantiate, or its name.
+   * @param overrides Field values to use instead of the prefab's, keyed by component type name.
+   * @returns The newly created entity.
+   */
+  createEntity(prefab: Prefab | string, overrides?: PrefabOverrides): Entity;
+
+  createEntity(...args: any[]): Entity {
+    if (typeof args[0] === 'function' || args.length === 0) {
+      return this.__dispatcher.createEntity(args);
+    }
+    return this.__dispatcher.instantiatePrefab(args[0], args[1]);
+  }
+
+  /**
+   * Looks up an entity by the stable ID obtained from its {@link Entity.stableId} property.  Like
+   * entities returned from queries, you *must not* retain a direct reference to the entity past the
+   * end of the `execute` method.
+   * @param stableId The entity's stable ID.
+   * @returns The entity, or `undefined` if it has been deleted since the ID was obtained.
+   */
+  getEntity(stableId: number): Entity | undefined {
+    const registry = this.__dispatcher.registry;
+    const id = registry.resolveStableId(stableId);
+    if (id === undefined) return;
+    return registry.pool.borrowTemporarily(id);
+  }
+
+  /**
+   * The entity that holds all of the world's singleton components, i.e. component types declared
+   * with the `singleton` option.  Read and write them with `this.singleton.read(Type)` and
+   * `this.singleton.write(Type)`, after declaring access in a query (e.g., `q.using(Type).write`)
+   * just like for any other component.  You *must not* retain a direct reference to the components
+   * past the end of the `execute` method.
+   */
+  get singleton(): Entity {
+    CHECK: if (!this.__dispatcher.singleton) {
+      throw new Error('No singleton component types defined in this world');
+    }
+    return this.__dispatcher.singleton!;
   }
 
   /**
@@ -175,6 +243,9 @@ export class SystemBox {
   readonly shapeQueriesByComponent: QueryBox[][] = [];
   readonly writeQueries: QueryBox[] = [];
   readonly writeQueriesByComponent: QueryBox[][] = [];
+  readonly sortedQueries: QueryBox[] = [];
+  readonly runConditions: (() => boolean)[] = [];
+  readonly runQueryConditions: Query[] = [];
   hasNegativeQueries: boolean;
   hasWriteQueries: boolean;
   private hasTransientQueries: boolean;
@@ -182,6 +253,7 @@ export class SystemBox {
   private shapeLogPointer: LogPointer;
   private writeLogPointer?: LogPointer;
   private state: RunState = RunState.RUNNING;
+  readonly stats: SystemStats;
 
   get id(): number {return this.system.id;}
   get name(): string {return this.system.name;}
@@ -189,6 +261,8 @@ export class SystemBox {
 
   constructor(private readonly system: System, readonly dispatcher: Dispatcher) {
     system.__dispatcher = dispatcher;
+    system.commands.__box = this;
+    STATS: this.stats = dispatcher.stats.forSystem(system);
     this.shapeLogPointer = dispatcher.shapeLog.createPointer();
   }
 
@@ -200,6 +274,10 @@ export class SystemBox {
     this.hasTransientQueries = this.shapeQueries.some(query => query.hasTransientResults);
   }
 
+  ownsQuery(query: Query): boolean {
+    return this.shapeQueries.some(box => box.query === query);
+  }
+
   buildSchedule(): void {
     this.system.__scheduleBuilder?.__build([this], `system ${this.name}`);
     this.system.__scheduleBuilder = null;
@@ -228,11 +306,59 @@ export class SystemBox {
   }
 
   execute(time: number, delta: number): void {
+    const tracer = this.dispatcher.tracer;
+    if (!tracer) {
+      this.run(time, delta);
+      return;
+    }
+    tracer.begin(this.name, 'system');
+    this.run(time, delta);
+    tracer.end(this.name, 'system');
+  }
+
+  private run(time: number, delta: number): void {
     if (this.state !== RunState.RUNNING) return;
+    for (let i = 0; i < this.runConditions.length; i++) {
+      if (!this.runConditions[i]()) {
+        STATS: this.stats.numSkips += 1;
+        // Keep consuming the logs so they don't overflow, and so that the queries are up to date
+        // with entities whose data is still accessible when the system resumes.
+        this.updateQueries();
+        return;
+      }
+    }
+    let startTime: number;
+    STATS: {
+      startTime = now();
+      this.stats.startExecution();
+    }
     this.system.time = time;
     this.system.delta = delta;
-    this.runQueries();
+    this.updateQueries();
+    STATS: this.stats.recordQueries(now() - startTime!);
+    for (let i = 0; i < this.runQueryConditions.length; i++) {
+      if (!this.runQueryConditions[i].current.length) {
+        STATS: this.stats.numSkips += 1;
+        return;
+      }
+    }
+    for (const query of this.sortedQueries) query.sortIfNeeded();
     this.system.execute();
+    if (this.system.commands.applyAt === 'system') this.system.commands.apply();
+    STATS: this.stats.recordExecution(now() - startTime!);
+  }
+
+  applyGroupCommands(): boolean {
+    const commands = this.system.commands;
+    if (commands.applyAt !== 'group' || !commands.size) return false;
+    commands.apply();
+    return true;
+  }
+
+  private updateQueries(): void {
+    this.dispatcher.tracer?.begin('update queries', 'query');
+    this.runQueries();
+    this.dispatcher.tracer?.end('update queries', 'query');
   }
 
   private runQueries(): void {
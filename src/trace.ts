@@ -0,0 +1,62 @@
+import {now} from './schedules';
+
+
+/**
+ * An event in the Chrome trace event format, which can be loaded into `chrome://tracing` or
+ * Perfetto after wrapping a list of them in a `{"traceEvents": [...]}` JSON object.
+ */
+export interface TraceEvent {
+  /**
+   * The name of the span or counter track.
+   */
+  name: string;
+
+  /**
+   * The category of the event: `frame`, `group`, `system`, `query`, `dispatcher` or `counter`.
+   */
+  cat: string;
+
+  /**
+   * The phase of the event: `B` begins a span, `E` ends the latest one, and `C` sets counters.
+   */
+  ph: 'B' | 'E' | 'C';
+
+  /**
+   * The event's timestamp in microseconds since tracing started.
+   */
+  ts: number;
+
+  pid: number;
+  tid: number;
+
+  /**
+   * Extra details about a span, or the values of a counter track.
+   */
+  args?: Record<string, unknown>;
+}
+
+
+/**
+ * Records trace events for a world while tracing is on.  Spans must be properly nested.
+ */
+export class Tracer {
+  readonly events: TraceEvent[] = [];
+  private readonly startTime = now();
+
+  begin(name: string, cat: string, args?: Record<string, unknown>): void {
+    this.events.push({name, cat, ph: 'B', ts: this.timestamp(), pid: 1, tid: 1, args});
+  }
+
+  end(name: string, cat: string): void {
+    this.events.push({name, cat, ph: 'E', ts: this.timestamp(), pid: 1, tid: 1});
+  }
+
+  counter(name: string, values: Record<string, number>): void {
+    this.events.push(
+      {name, cat: 'counter', ph: 'C', ts: this.timestamp(), pid: 1, tid: 1, args: values});
+  }
+
+  private timestamp(): number {
+    return Math.round((now() - this.startTime) * 1000);
+  }
+}
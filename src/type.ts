@@ -1,6 +1,6 @@
 import type {TypedArray, TypedArrayConstructor} from './buffers';
 import type {Binding, Component, ComponentType, Field} from './component';
-import {ENTITY_ID_MASK} from './consts';
+import {ENTITY_ID_MASK, MAX_NUM_REFS} from './consts';
 import type {Entity, EntityId} from './entity';
 
 const encoder = new TextEncoder();
@@ -22,6 +22,19 @@ function checkInvalid(component: Component, binding: Binding<any>) {
   }
 }
 
+/**
+ * Options for a `Type.ref` field.
+ */
+export interface RefOptions {
+  /**
+   * What to do with the component holding the ref when the entity it points to gets deleted.  By
+   * default the ref is simply nulled out, but you can also `remove` the holding component from its
+   * entity, or `delete` the holding entity altogether.  Either way the system deleting the target
+   * will need write access to the affected components.
+   */
+  onTargetDeleted?: 'remove' | 'delete';
+}
+
 export abstract class Type<JSType> {
   constructor(readonly defaultValue: JSType) {}
 
@@ -39,14 +52,14 @@ export abstract class Type<JSType> {
   static float64: Type<number>;
   static staticString: (choices: string[]) => Type<string>;
   static dynamicString: (maxUtf8Length: number) => Type<string>;
+  static array: (elementType: Type<number>, length: number) => Type<number[]>;
+  static struct: (members: Record<string, Type<number> | Type<boolean>>) => Type<any>;
   static object: Type<any>;
   static weakObject: Type<any>;
-  // TODO: add autoremove/autodelete when nulled out
-  static ref: Type<Entity | undefined>;
+  static ref: (options?: RefOptions) => Type<Entity | undefined>;
+  static refs: (maxLength: number, options?: RefOptions) => Type<(Entity | undefined)[]>;
   static backrefs: (type?: ComponentType<any>, fieldName?: string, trackDeletedBackrefs?: boolean)
     => Type<Entity[]>;
-  // TODO: add array type
-  // TODO: add struct type
 }
 
 class BooleanType extends Type<boolean> {
@@ -118,7 +131,7 @@ class BooleanType extends Type<boolean> {
 
 
 class NumberType extends Type<number> {
-  constructor(private readonly NumberArray: TypedArrayConstructor) {
+  constructor(readonly NumberArray: TypedArrayConstructor) {
     super(0);
   }
 
@@ -387,10 +400,249 @@ class DynamicStringType extends Type<string> {
   }
 }
 
+interface FieldView {
+  __component?: Component;
+}
+
+class ArrayType extends Type<number[]> {
+  constructor(private readonly elementType: NumberType, private readonly length: number) {
+    super(new Array(length).fill(elementType.defaultValue));
+  }
+
+  defineElastic<C>(binding: Binding<C>, field: Field<number[]>): void {
+    const bufferKey = `component.${binding.type.id!}.field.${field.seq}`;
+    let data: TypedArray;
+    const length = this.length;
+
+    field.updateBuffer = () => {
+      binding.dispatcher.buffers.register(
+        bufferKey, binding.capacity * length, this.elementType.NumberArray,
+        (newData: TypedArray) => {data = newData;}
+      );
+    };
+    field.updateBuffer();
+
+    const writableMaster: FieldView = {}, readonlyMaster: FieldView = {};
+    const defineElement = (i: number) => {
+      Object.defineProperty(writableMaster, i, {
+        enumerable: true,
+        get(this: FieldView): number {
+          CHECK: checkInvalid(this.__component!, binding);
+          return data[binding.index * length + i];
+        },
+        set(this: FieldView, value: number): void {
+          CHECK: checkInvalid(this.__component!, binding);
+          data[binding.index * length + i] = value;
+        }
+      });
+      Object.defineProperty(readonlyMaster, i, {
+        enumerable: true,
+        get(this: FieldView): number {
+          CHECK: checkInvalid(this.__component!, binding);
+          return data[binding.index * length + i];
+        },
+        set(this: FieldView, value: number): void {
+          throwNotWritable(binding);
+        }
+      });
+    };
+    for (let i = 0; i < length; i++) defineElement(i);
+    for (const master of [writableMaster, readonlyMaster]) {
+      Object.defineProperty(master, 'length', {value: length});
+      Object.defineProperty(master, Symbol.iterator, {
+        *value(this: any) {
+          for (let i = 0; i < length; i++) yield this[i];
+        }
+      });
+    }
+
+    Object.defineProperty(binding.writableInstance, field.name, {
+      enumerable: true, configurable: true,
+      get(this: C): number[] {
+        CHECK: checkInvalid(this, binding);
+        let view = writableMaster;
+        CHECK: {
+          view = Object.create(writableMaster, {__component: {value: this}});
+        }
+        return view as number[];
+      },
+      set(this: C, value: ArrayLike<number>): void {
+        CHECK: checkInvalid(this, binding);
+        CHECK: if (value.length !== length) {
+          throw new Error(`Array length must be ${length}, got ${value.length}`);
+        }
+        const offset = binding.index * length;
+        for (let i = 0; i < length; i++) data[offset + i] = value[i];
+      }
+    });
+
+    Object.defineProperty(binding.readonlyInstance, field.name, {
+      enumerable: true, configurable: true,
+      get(this: C): number[] {
+        CHECK: checkInvalid(this, binding);
+        let view = readonlyMaster;
+        CHECK: {
+          view = Object.create(readonlyMaster, {__component: {value: this}});
+        }
+        return view as number[];
+      },
+      set(this: C, value: ArrayLike<number>): void {
+        throwNotWritable(binding);
+      }
+    });
+  }
+
+  defineFixed<C>(binding: Binding<C>, field: Field<number[]>): void {
+    this.defineElastic(binding, field);
+  }
+}
+
+class StructType extends Type<any> {
+  private readonly memberNames: string[];
+
+  constructor(private readonly members: Record<string, NumberType | BooleanType>) {
+    const defaultValue: Record<string, any> = {};
+    for (const name in members) defaultValue[name] = members[name].defaultValue;
+    super(defaultValue);
+    this.memberNames = Object.keys(members);
+  }
+
+  defineElastic<C>(binding: Binding<C>, field: Field<any>): void {
+    const bufferKey = `component.${binding.type.id!}.field.${field.seq}`;
+    const memberNames = this.memberNames;
+    const defaultValue = this.defaultValue;
+    const booleans = memberNames.map(name => this.members[name] instanceof BooleanType);
+    const data: TypedArray[] = [];
+
+    field.updateBuffer = () => {
+      for (let k = 0; k < memberNames.length; k++) {
+        const member = this.members[memberNames[k]];
+        binding.dispatcher.buffers.register(
+          `${bufferKey}.${k}`, binding.capacity,
+          member instanceof NumberType ? member.NumberArray : Uint8Array,
+          (newData: TypedArray) => {data[k] = newData;}
+        );
+      }
+    };
+    field.updateBuffer();
+
+    const writableMaster: FieldView = {}, readonlyMaster: FieldView = {};
+    const defineMember = (k: number) => {
+      const boolean = booleans[k];
+      Object.defineProperty(writableMaster, memberNames[k], {
+        enumerable: true,
+        get(this: FieldView): number | boolean {
+          CHECK: checkInvalid(this.__component!, binding);
+          const value = data[k][binding.index];
+          return boolean ? Boolean(value) : value;
+        },
+        set(this: FieldView, value: number | boolean): void {
+          CHECK: checkInvalid(this.__component!, binding);
+          data[k][binding.index] = boolean ? (value ? 1 : 0) : value as number;
+        }
+      });
+      Object.defineProperty(readonlyMaster, memberNames[k], {
+        enumerable: true,
+        get(this: FieldView): number | boolean {
+          CHECK: checkInvalid(this.__component!, binding);
+          const value = data[k][binding.index];
+          return boolean ? Boolean(value) : value;
+        },
+        set(this: FieldView, value: number | boolean): void {
+          throwNotWritable(binding);
+        }
+      });
+    };
+    for (let k = 0; k < memberNames.length; k++) defineMember(k);
+
+    Object.defineProperty(binding.writableInstance, field.name, {
+      enumerable: true, configurable: true,
+      get(this: C): any {
+        CHECK: checkInvalid(this, binding);
+        let view = writableMaster;
+        CHECK: {
+          view = Object.create(writableMaster, {__component: {value: this}});
+        }
+        return view;
+      },
+      set(this: C, value: any): void {
+        CHECK: checkInvalid(this, binding);
+        CHECK: for (const name in value) {
+          if (!memberNames.includes(name)) {
+            throw new Error(
+              `Struct field ${binding.type.name}.${field.name} has no ${name} member`);
+          }
+        }
+        for (let k = 0; k < memberNames.length; k++) {
+          let memberValue = value[memberNames[k]];
+          if (memberValue === undefined) memberValue = defaultValue[memberNames[k]];
+          data[k][binding.index] = booleans[k] ? (memberValue ? 1 : 0) : memberValue;
+        }
+      }
+    });
+
+    Object.defineProperty(binding.readonlyInstance, field.name, {
+      enumerable: true, configurable: true,
+      get(this: C): any {
+        CHECK: checkInvalid(this, binding);
+        let view = readonlyMaster;
+        CHECK: {
+          view = Object.create(readonlyMaster, {__component: {value: this}});
+        }
+        return view;
+      },
+      set(this: C, value: any): void {
+        throwNotWritable(binding);
+      }
+    });
+  }
+
+  defineFixed<C>(binding: Binding<C>, field: Field<any>): void {
+    this.defineElastic(binding, field);
+  }
+}
+
 const STALE_REF_BIT = 2 ** 31;
 
-class RefType extends Type<Entity | undefined> {
-  constructor() {
+function trackRefAssignment(
+  binding: Binding<any>, seq: number, internalIndex: number | undefined, oldId: number,
+  newId: EntityId
+): void {
+  const indexer = binding.dispatcher.indexer;
+  if (oldId !== -1) {
+    const oldTargetId = oldId & ENTITY_ID_MASK;
+    // A stale ref has already been unreferenced when its target got deleted.
+    if (!(oldId & STALE_REF_BIT)) {
+      indexer.trackRefChange(
+        binding.entityId, binding.type, seq, internalIndex, oldTargetId, -1, false);
+    }
+    indexer.trackRefChange(
+      binding.entityId, binding.type, seq, internalIndex, oldTargetId, -1, true);
+  }
+  if (newId !== -1) {
+    indexer.trackRefChange(binding.entityId, binding.type, seq, internalIndex, -1, newId, true);
+  }
+}
+
+function handleRefTargetDeleted(
+  binding: Binding<any>, onTargetDeleted: 'remove' | 'delete'
+): void {
+  const registry = binding.dispatcher.registry;
+  const sourceId = binding.entityId;
+  switch (onTargetDeleted) {
+    case 'remove':
+      registry.clearShape(sourceId, binding.type);
+      break;
+    case 'delete':
+      if (registry.hasShape(sourceId, registry.Alive, false)) {
+        registry.pool.borrowTemporarily(sourceId).delete();
+      }
+      break;
+  }
+}
+
+export class RefType extends Type<Entity | undefined> {
+  constructor(private readonly onTargetDeleted?: 'remove' | 'delete') {
     super(undefined);
   }
 
@@ -400,6 +652,7 @@ class RefType extends Type<Entity | undefined> {
     const indexer = binding.dispatcher.indexer;
     const registry = binding.dispatcher.registry;
     const pool = registry.pool;
+    const internalIndex = binding.internallyIndexed ? 0 : undefined;
     indexer.registerSelector();
 
     field.updateBuffer = () => {
@@ -409,18 +662,23 @@ class RefType extends Type<Entity | undefined> {
     };
     field.updateBuffer();
 
-    field.clearRef = (final: boolean, targetId?: EntityId, internalIndex?: number) => {
-      DEBUG: if (internalIndex) throw new Error('Ref fields have no internal index');
+    field.clearRef = (final: boolean, targetId?: EntityId, targetInternalIndex?: number) => {
+      DEBUG: if (targetInternalIndex) throw new Error('Ref fields have no internal index');
+      if (data[binding.index] === -1) return;
       DEBUG: if ((data[binding.index] & STALE_REF_BIT) !== 0 !== final) {
         throw new Error('Wrong ref stale state');
       }
       const id = data[binding.index] & ENTITY_ID_MASK;
       const targetIdGiven = targetId !== undefined;
       if (targetIdGiven && id !== targetId) return;
-      if (!final) data[binding.index] |= STALE_REF_BIT;
-      else if (targetIdGiven) data[binding.index] = -1;
+      if (targetIdGiven && !final && this.onTargetDeleted) {
+        handleRefTargetDeleted(binding, this.onTargetDeleted);
+        return;
+      }
+      if (final) data[binding.index] = -1;
+      else data[binding.index] |= STALE_REF_BIT;
       indexer.trackRefChange(
-        binding.entityId, binding.type, field.seq, undefined, id, -1, final);
+        binding.entityId, binding.type, field.seq, internalIndex, id, -1, final);
     };
 
     Object.defineProperty(binding.writableInstance, field.name, {
@@ -440,8 +698,7 @@ class RefType extends Type<Entity | undefined> {
         const newId = value?.__id ?? -1;
         if (oldId === newId) return;
         data[binding.index] = newId;
-        indexer.trackRefChange(
-          binding.entityId, binding.type, field.seq, undefined, oldId, newId, true);
+        trackRefAssignment(binding, field.seq, internalIndex, oldId, newId);
       }
     });
 
@@ -467,20 +724,26 @@ class RefType extends Type<Entity | undefined> {
     const indexer = binding.dispatcher.indexer;
     const registry = binding.dispatcher.registry;
     const pool = registry.pool;
+    const internalIndex = binding.internallyIndexed ? 0 : undefined;
     indexer.registerSelector();
 
-    field.clearRef = (final: boolean, targetId?: EntityId, internalIndex?: number) => {
-      DEBUG: if (internalIndex) throw new Error('Ref fields have no internal index');
+    field.clearRef = (final: boolean, targetId?: EntityId, targetInternalIndex?: number) => {
+      DEBUG: if (targetInternalIndex) throw new Error('Ref fields have no internal index');
+      if (data[binding.index] === -1) return;
       DEBUG: if ((data[binding.index] & STALE_REF_BIT) !== 0 !== final) {
         throw new Error('Wrong ref stale state');
       }
       const id = data[binding.index] & ENTITY_ID_MASK;
       const targetIdGiven = targetId !== undefined;
       if (targetIdGiven && id !== targetId) return;
-      if (!final) data[binding.index] |= STALE_REF_BIT;
-      else if (targetIdGiven) data[binding.index] = -1;
+      if (targetIdGiven && !final && this.onTargetDeleted) {
+        handleRefTargetDeleted(binding, this.onTargetDeleted);
+        return;
+      }
+      if (final) data[binding.index] = -1;
+      else data[binding.index] |= STALE_REF_BIT;
       indexer.trackRefChange(
-        binding.entityId, binding.type, field.seq, undefined, id, -1, final);
+        binding.entityId, binding.type, field.seq, internalIndex, id, -1, final);
     };
 
     Object.defineProperty(binding.writableInstance, field.name, {
@@ -500,8 +763,7 @@ class RefType extends Type<Entity | undefined> {
         const newId = value?.__id ?? -1;
         if (oldId === newId) return;
         data[binding.index] = newId;
-        indexer.trackRefChange(
-          binding.entityId, binding.type, field.seq, undefined, oldId, newId, true);
+        trackRefAssignment(binding, field.seq, internalIndex, oldId, newId);
       }
     });
 
@@ -520,6 +782,151 @@ class RefType extends Type<Entity | undefined> {
   }
 }
 
+export class RefsType extends Type<(Entity | undefined)[]> {
+  constructor(
+    private readonly maxLength: number, private readonly onTargetDeleted?: 'remove' | 'delete'
+  ) {
+    super([]);
+  }
+
+  defineElastic<C>(binding: Binding<C>, field: Field<(Entity | undefined)[]>): void {
+    const bufferKey = `component.${binding.type.id!}.field.${field.seq}`;
+    let data: Int32Array;
+    const maxLength = this.maxLength;
+    const onTargetDeleted = this.onTargetDeleted;
+    const indexer = binding.dispatcher.indexer;
+    const registry = binding.dispatcher.registry;
+    const pool = registry.pool;
+    indexer.registerSelector();
+
+    field.updateBuffer = () => {
+      binding.dispatcher.buffers.register(
+        bufferKey, binding.capacity * maxLength, Int32Array,
+        (newData: Int32Array) => {data = newData;}, -1
+      );
+    };
+    field.updateBuffer();
+
+    const clearSlot = (i: number, final: boolean, targetId?: EntityId) => {
+      const k = binding.index * maxLength + i;
+      if (data[k] === -1) return;
+      const targetIdGiven = targetId !== undefined;
+      // Another slot pointing to the same target may have already removed the whole component.
+      if (targetIdGiven && !final && (data[k] & STALE_REF_BIT)) return;
+      DEBUG: if ((data[k] & STALE_REF_BIT) !== 0 !== final) {
+        throw new Error('Wrong ref stale state');
+      }
+      const id = data[k] & ENTITY_ID_MASK;
+      if (targetIdGiven && id !== targetId) return;
+      if (targetIdGiven && !final && onTargetDeleted) {
+        handleRefTargetDeleted(binding, onTargetDeleted);
+        return;
+      }
+      if (final) data[k] = -1;
+      else data[k] |= STALE_REF_BIT;
+      indexer.trackRefChange(binding.entityId, binding.type, field.seq, i, id, -1, final);
+    };
+
+    field.clearRef = (final: boolean, targetId?: EntityId, internalIndex?: number) => {
+      if (targetId === undefined) {
+        for (let i = 0; i < maxLength; i++) clearSlot(i, final);
+      } else {
+        clearSlot(internalIndex!, final, targetId);
+      }
+    };
+
+    const getSlot = (i: number): Entity | undefined => {
+      const id = data[binding.index * maxLength + i];
+      if (id === -1 || (id & STALE_REF_BIT) && !registry.includeRecentlyDeleted) return;
+      return pool.borrowTemporarily(id & ENTITY_ID_MASK);
+    };
+
+    const setSlot = (i: number, value: Entity | undefined | null) => {
+      CHECK: if (value && !registry.hasShape(value.__id, registry.Alive, false)) {
+        throw new Error('Referencing a deleted entity is not allowed');
+      }
+      const k = binding.index * maxLength + i;
+      const oldId = data[k];
+      const newId = value?.__id ?? -1;
+      if (oldId === newId) return;
+      data[k] = newId;
+      trackRefAssignment(binding, field.seq, i, oldId, newId);
+    };
+
+    const writableMaster: FieldView = {}, readonlyMaster: FieldView = {};
+    const defineElement = (i: number) => {
+      Object.defineProperty(writableMaster, i, {
+        enumerable: true,
+        get(this: FieldView): Entity | undefined {
+          CHECK: checkInvalid(this.__component!, binding);
+          return getSlot(i);
+        },
+        set(this: FieldView, value: Entity | undefined | null): void {
+          CHECK: checkInvalid(this.__component!, binding);
+          setSlot(i, value);
+        }
+      });
+      Object.defineProperty(readonlyMaster, i, {
+        enumerable: true,
+        get(this: FieldView): Entity | undefined {
+          CHECK: checkInvalid(this.__component!, binding);
+          return getSlot(i);
+        },
+        set(this: FieldView, value: Entity | undefined | null): void {
+          throwNotWritable(binding);
+        }
+      });
+    };
+    for (let i = 0; i < maxLength; i++) defineElement(i);
+    for (const master of [writableMaster, readonlyMaster]) {
+      Object.defineProperty(master, 'length', {value: maxLength});
+      Object.defineProperty(master, Symbol.iterator, {
+        *value(this: any) {
+          for (let i = 0; i < maxLength; i++) yield this[i];
+        }
+      });
+    }
+
+    Object.defineProperty(binding.writableInstance, field.name, {
+      enumerable: true, configurable: true,
+      get(this: C): (Entity | undefined)[] {
+        CHECK: checkInvalid(this, binding);
+        let view = writableMaster;
+        CHECK: {
+          view = Object.create(writableMaster, {__component: {value: this}});
+        }
+        return view as (Entity | undefined)[];
+      },
+      set(this: C, value: ArrayLike<Entity | undefined | null>): void {
+        CHECK: checkInvalid(this, binding);
+        CHECK: if (value.length > maxLength) {
+          throw new Error(`Too many refs, the maximum is ${maxLength}, got ${value.length}`);
+        }
+        for (let i = 0; i < maxLength; i++) setSlot(i, value[i]);
+      }
+    });
+
+    Object.defineProperty(binding.readonlyInstance, field.name, {
+      enumerable: true, configurable: true,
+      get(this: C): (Entity | undefined)[] {
+        CHECK: checkInvalid(this, binding);
+        let view = readonlyMaster;
+        CHECK: {
+          view = Object.create(readonlyMaster, {__component: {value: this}});
+        }
+        return view as (Entity | undefined)[];
+      },
+      set(this: C, value: ArrayLike<Entity | undefined | null>): void {
+        throwNotWritable(binding);
+      }
+    });
+  }
+
+  defineFixed<C>(binding: Binding<C>, field: Field<(Entity | undefined)[]>): void {
+    this.defineElastic(binding, field);
+  }
+}
+
 export const EMPTY_ARRAY: Entity[] = [];
 
 class BackrefsType extends Type<Entity[]> {
@@ -542,7 +949,7 @@ class BackrefsType extends Type<Entity[]> {
           `Backrefs field ${binding.type.name}.${field.name} refers to ` +
           `an unknown field ${this.type!.name}.${this.fieldName}`);
       }
-      if (refField && refField.type !== Type.ref) {
+      if (refField && !(refField.type instanceof RefType || refField.type instanceof RefsType)) {
         throw new Error(
           `Backrefs field ${binding.type.name}.${field.name} refers to ` +
           `a field ${this.type!.name}.${this.fieldName} that is not a ref`);
@@ -562,6 +969,7 @@ class BackrefsType extends Type<Entity[]> {
     indexer.registerSelector();  // make sure global selector always registered first
     const selectorId =
       indexer.registerSelector(binding.type, this.type, refField?.seq, this.trackDeletedBackrefs);
+    field.updateBuffer = () => {/* no-op */};
 
     const propertyDefinition = {
       enumerable: true, configurable: true,
@@ -730,7 +1138,28 @@ Type.float32 = new NumberType(Float32Array);
 Type.float64 = new NumberType(Float64Array);
 Type.staticString = (choices: string[]) => new StaticStringType(choices);
 Type.dynamicString = (maxUtf8Length: number) => new DynamicStringType(maxUtf8Length);
-Type.ref = new RefType();
+Type.array = (elementType: Type<number>, length: number) => {
+  CHECK: if (!(elementType instanceof NumberType)) {
+    throw new Error('Array elements must be of a numeric type');
+  }
+  CHECK: if (!(length > 0)) throw new Error(`Array length must be positive, got ${length}`);
+  return new ArrayType(elementType as NumberType, length);
+};
+Type.struct = (members: Record<string, Type<number> | Type<boolean>>) => {
+  CHECK: for (const name in members) {
+    if (!(members[name] instanceof NumberType || members[name] instanceof BooleanType)) {
+      throw new Error(`Struct member ${name} must be of a numeric or boolean type`);
+    }
+  }
+  return new StructType(members as Record<string, NumberType | BooleanType>);
+};
+Type.ref = (options?: RefOptions) => new RefType(options?.onTargetDeleted);
+Type.refs = (maxLength: number, options?: RefOptions) => {
+  CHECK: if (!(maxLength > 0 && maxLength <= MAX_NUM_REFS)) {
+    throw new Error(`Refs maxLength must be between 1 and ${MAX_NUM_REFS}, got ${maxLength}`);
+  }
+  return new RefsType(maxLength, options?.onTargetDeleted);
+};
 Type.backrefs = (
   type?: ComponentType<any>, fieldName?: string, trackDeletedBackrefs = false
 ) => new BackrefsType(type, fieldName, trackDeletedBackrefs);
@@ -1,8 +1,12 @@
 import type {ComponentType} from './component';
 import {ControlOptions, Dispatcher, WorldOptions} from './dispatcher';
+import {ReplicationDecoder, ReplicationEncoder} from './replication';
 import {Frame, FrameImpl, SystemGroup} from './schedules';
+import {definePrefab, definePrefabs, Prefab, PrefabDef, PrefabOverrides} from './prefab';
 import type {Stats} from './stats';
 import type {System} from './system';
+import type {TraceEvent} from './trace';
+import type {ScheduleGraph} from './schedulegraph';
 
 const MAGIC_COOKIE = {};
 
@@ -64,8 +68,53 @@ export class World {
    * @param initialComponents The types of the components to add to the new entity, optionally
    * interleaved with their initial properties.
    */
-  createEntity(...initialComponents: (ComponentType<any> | Record<string, unknown>)[]): void {
-    this.__dispatcher.createEntity(initialComponents);
+  createEntity(...initialComponents: (ComponentType<any> | Record<string, unknown>)[]): void;
+
+  /**
+   * Creates a new entity from a prefab, along with any child entities the prefab specifies.  The
+   * entity is not returned -- if you need that, use `build` instead.
+   *
+   * @param prefab The prefab to instantiate, or its name.
+   * @param overrides Field values to use instead of the prefab's, keyed by component type name.
+   */
+  createEntity(prefab: Prefab | string, overrides?: PrefabOverrides): void;
+
+  createEntity(...args: any[]): void {
+    if (typeof args[0] === 'function' || args.length === 0) {
+      this.__dispatcher.createEntity(args);
+    } else {
+      this.__dispatcher.instantiatePrefab(args[0], args[1]);
+    }
+  }
+
+  /**
+   * Defines a template for creating entities and registers it under the given name, replacing any
+   * previous prefab with the same name.
+   *
+   * @param name The prefab's name, which you can pass to `createEntity` instead of the prefab.
+   * @param def Either a list of component types optionally interleaved with their initial field
+   * values (just like `createEntity`), or a data-only description that refers to component types by
+   * name and can extend other prefabs and declare child entities.
+   *
+   * @returns The new prefab.
+   */
+  definePrefab(
+    name: string, def: PrefabDef | (ComponentType<any> | Record<string, unknown>)[]
+  ): Prefab {
+    return definePrefab(this.__dispatcher, name, def);
+  }
+
+  /**
+   * Defines a batch of prefabs from a document, typically loaded from JSON, that maps prefab names
+   * to data-only descriptions.  The prefabs can refer to each other in any order, as well as to
+   * prefabs defined previously.
+   *
+   * @param doc The prefab descriptions, or a JSON string that parses into them.
+   *
+   * @returns The new prefabs.
+   */
+  definePrefabs(doc: Record<string, PrefabDef> | string): Prefab[] {
+    return definePrefabs(this.__dispatcher, typeof doc === 'string' ? JSON.parse(doc) : doc);
   }
 
   /**
@@ -125,6 +174,72 @@ export class World {
     return new FrameImpl(this.__dispatcher, groups);
   }
 
+  /**
+   * Describes the order constraints between the world's systems and the reasons for them, whether
+   * explicit (`before`, `after`, `inAnyOrderWith`, etc.) or inferred from the components that
+   * systems read and write.  Use it to understand why a system runs where it does.
+   *
+   * @returns The scheduling graph, which can be rendered in DOT or Mermaid format.
+   */
+  describeSchedule(): ScheduleGraph {
+    return this.__dispatcher.planner.describe();
+  }
+
+  /**
+   * Serializes all the world's entities and their components into a binary blob that can be passed
+   * to `World.create` as the `snapshot` option to recreate the world's state, e.g. to implement
+   * saved games.  Fields of type `object` and `weakObject` are not included in the snapshot.  You
+   * can only invoke this method when the world is not executing.
+   *
+   * @returns The snapshot's bytes.
+   */
+  snapshot(): Uint8Array {
+    return this.__dispatcher.snapshot();
+  }
+
+  /**
+   * Creates an encoder that turns the changes made to this world into binary diffs, e.g. to send to
+   * clients over the network.  The world must have been created with the `replicate` option.
+   *
+   * @returns A new replication encoder, whose first diff will include the whole world.
+   */
+  createReplicationEncoder(): ReplicationEncoder {
+    return new ReplicationEncoder(this.__dispatcher);
+  }
+
+  /**
+   * Creates a decoder that applies diffs from another world's replication encoder to this world.
+   * The component types being replicated must be defined in this world with the same names and
+   * fields.
+   *
+   * @returns A new replication decoder.
+   */
+  createReplicationDecoder(): ReplicationDecoder {
+    return new ReplicationDecoder(this.__dispatcher);
+  }
+
+  /**
+   * Starts recording a timeline of the world's execution, with spans for each frame, group, system,
+   * query update, and internal bookkeeping step, as well as counter tracks for the number of
+   * entities and components.  Counting takes a pass over all entities at the end of every frame, so
+   * expect frames to take a bit longer while tracing.  You can only invoke this method when the
+   * world is not executing.
+   */
+  startTrace(): void {
+    this.__dispatcher.startTrace();
+  }
+
+  /**
+   * Stops recording the timeline started by `startTrace`.  You can only invoke this method when the
+   * world is not executing.
+   *
+   * @returns The recorded events in Chrome's trace event format.  Save them as JSON wrapped in a
+   * `{"traceEvents": [...]}` object to load the timeline into `chrome://tracing` or Perfetto.
+   */
+  stopTrace(): TraceEvent[] {
+    return this.__dispatcher.stopTrace();
+  }
+
   get stats(): Stats {
     return this.__dispatcher.stats;
   }
@@ -0,0 +1,71 @@
+import {component, Entity, field, Type, World} from '../src';
+
+
+@component class Body {
+  @field(Type.uint8) declare value: number;
+  @field(Type.array(Type.int16, 2)) declare coords: number[];
+  @field(Type.struct({x: Type.float32, visible: Type.boolean})) declare pos: any;
+  @field(Type.dynamicString(10)) declare label: string;
+  @field(Type.object) declare extra: any;
+}
+
+@component class Link {
+  @field(Type.ref) declare target?: Entity;
+  @field(Type.ref) declare next?: Entity;
+}
+
+@component class Targeted {
+  @field(Type.backrefs(Link, 'target')) declare targeters: Entity[];
+}
+
+
+describe('cloning entities', () => {
+
+  test('copy all components and values', async() => {
+    const world = await World.create();
+    const extra = {foo: 1};
+    world.build(system => {
+      const target = system.createEntity(Targeted);
+      const original = system.createEntity(
+        Body, {value: 7, coords: [3, -4], pos: {x: 1.5, visible: true}, label: 'hi', extra},
+        Link, {target}
+      );
+      const clone = original.clone();
+      expect(clone.isSame(original)).toBe(false);
+      const body = clone.read(Body);
+      expect([body.value, Array.from(body.coords), body.pos.x, body.pos.visible, body.label])
+        .toEqual([7, [3, -4], 1.5, true, 'hi']);
+      expect(body.extra).toBe(extra);
+      expect(clone.read(Link).target!.isSame(target)).toBe(true);
+      expect(target.read(Targeted).targeters.length).toBe(2);
+      clone.write(Body).coords[0] = 9;
+      expect(original.read(Body).coords[0]).toBe(3);
+    });
+    expect(world.stats.numEntities).toBe(3);
+  });
+
+  test('clone entities reachable through designated refs', async() => {
+    const world = await World.create();
+    world.build(system => {
+      const target = system.createEntity(Targeted);
+      const tail = system.createEntity(Body, {value: 3}, Link, {target});
+      const middle = system.createEntity(Body, {value: 2}, Link, {target, next: tail});
+      const head = system.createEntity(Body, {value: 1}, Link, {target, next: middle});
+      tail.write(Link).next = head;  // make a cycle
+      const clone = head.clone({deep: [[Link, 'next']]});
+      const values = [];
+      let entity: Entity | undefined = clone;
+      for (let i = 0; i < 3; i++) {
+        values.push(entity!.read(Body).value);
+        expect(entity!.read(Link).target!.isSame(target)).toBe(true);
+        entity = entity!.read(Link).next;
+      }
+      expect(values).toEqual([1, 2, 3]);
+      expect(entity!.isSame(clone)).toBe(true);
+      expect(target.read(Targeted).targeters.length).toBe(6);
+      expect(() => head.clone({deep: [[Body, 'value']]})).toThrow('is not a ref');
+    });
+    expect(world.stats.numEntities).toBe(7);
+  });
+
+});
@@ -0,0 +1,86 @@
+import {component, Entity, field, System, Type, World} from '../src';
+
+let countsSeen: number[] = [];
+
+@component class Fuse {
+  @field(Type.uint8) declare turns: number;
+}
+
+@component class Spark {
+  @field(Type.ref) declare source?: Entity;
+}
+
+class Burn extends System {
+  entities = this.query(q => q.current.with(Fuse).write.using(Spark).write);
+  execute() {
+    for (const entity of this.entities.current) {
+      if (--entity.write(Fuse).turns) continue;
+      this.commands.remove(entity, Fuse);
+      this.commands.create(Spark, {source: entity});
+    }
+    countsSeen.push(this.entities.current.length);
+  }
+}
+
+class Extinguish extends System {
+  entities = this.query(q => q.current.with(Spark).write);
+  sked = this.schedule(s => s.after(Burn));
+  constructor() {
+    super();
+    this.commands.applyAt = 'group';
+  }
+
+  execute() {
+    countsSeen.push(this.entities.current.length);
+    for (const entity of this.entities.current) this.commands.delete(entity);
+  }
+}
+
+
+describe('command buffers', () => {
+
+  beforeEach(() => {
+    countsSeen = [];
+  });
+
+  test('apply changes at the end of the system', async() => {
+    const world = await World.create({defs: [Burn]});
+    world.createEntity(Fuse, {turns: 1});
+    world.createEntity(Fuse, {turns: 1});
+    world.createEntity(Fuse, {turns: 2});
+    await world.execute();
+    await world.execute();
+    await world.execute();
+    expect(countsSeen).toEqual([3, 1, 0]);
+    expect(world.stats.numEntities).toBe(6);
+    world.build(system => {
+      system.commands.create(Fuse, {turns: 5});
+      expect(world.stats.numEntities).toBe(6);
+    });
+    expect(world.stats.numEntities).toBe(7);
+  });
+
+  test('apply changes at the end of the group', async() => {
+    const world = await World.create({defs: [Burn, Extinguish]});
+    world.createEntity(Fuse, {turns: 1});
+    await world.execute();
+    await world.execute();
+    // Extinguish sees the spark in the same frame Burn created it, but only deletes it once both
+    // systems are done.
+    expect(countsSeen).toEqual([1, 1, 0, 0]);
+    expect(world.stats.numEntities).toBe(1);
+  });
+
+  test('reject invalid commands when applying', async() => {
+    const world = await World.create();
+    world.build(system => {
+      const entity = system.createEntity(Fuse);
+      system.commands.remove(entity, Fuse);
+      system.commands.remove(entity, Fuse);
+      expect(system.commands.size).toBe(2);
+      expect(() => system.commands.apply()).toThrow(`doesn't have a Fuse component`);
+      expect(system.commands.size).toBe(0);
+    });
+  });
+
+});
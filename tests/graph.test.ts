@@ -93,6 +93,21 @@ describe('bitset operations', () => {
     expect(subgraph.topologicallSortedVertices).toEqual(['a', 'b']);
   });
 
+  test('label edges', () => {
+    graph.addEdge('a', 'b', 1, 'x');
+    graph.addEdge('a', 'b', 1, 'y');
+    graph.addEdge('a', 'b', 1, 'x');
+    graph.addEdge('c', 'd', 1, 'x');
+    graph.addEdge('c', 'd', 2, 'y');
+    graph.addEdge('e', 'f', 1, 'x');
+    graph.denyEdge('f', 'e', 2, 'y');
+    expect(graph.labelledEdges).toEqual([
+      {source: 'a', target: 'b', weight: 1, label: 'x; y'},
+      {source: 'c', target: 'd', weight: 2, label: 'y'},
+      {source: 'f', target: 'e', weight: -2, label: 'y'}
+    ]);
+  });
+
   test('ignore self loops', () => {
     graph.addEdge('a', 'a', 1);
     expect(graph.hasEdge('a', 'a')).toBe(false);
@@ -0,0 +1,135 @@
+import {
+  component, Entity, field, getDepth, Parent, setParent, System, traverseHierarchy, Type, World
+} from '../src';
+
+let order: string[];
+
+@component class Node {
+  @field(Type.dynamicString(10)) declare name: string;
+}
+
+class ListNodes extends System {
+  entities = this.query(q => q.current.with(Node).orderByHierarchy());
+  execute() {
+    order = this.entities.current.map(entity => entity.read(Node).name);
+  }
+}
+
+
+describe('hierarchy', () => {
+
+  test('link entities and traverse subtrees', async() => {
+    const world = await World.create({defs: [Parent]});
+    world.build(system => {
+      const root = system.createEntity(Node, {name: 'root'});
+      const a = system.createEntity(Node, {name: 'a'});
+      const b = system.createEntity(Node, {name: 'b'});
+      const a1 = system.createEntity(Node, {name: 'a1'});
+      setParent(a1, a);
+      setParent(a, root);
+      setParent(b, root);
+      const visited: string[] = [];
+      traverseHierarchy(root, (entity, depth) => {
+        visited.push(`${entity.read(Node).name}@${depth}`);
+      });
+      expect(visited).toEqual(['root@0', 'a@1', 'a1@2', 'b@1']);
+      visited.length = 0;
+      traverseHierarchy(root, entity => {
+        visited.push(entity.read(Node).name);
+        return entity.isSame(root);
+      });
+      expect(visited).toEqual(['root', 'a', 'b']);
+      expect(getDepth(a1)).toBe(2);
+      expect(() => setParent(root, a1)).toThrow('under its own subtree');
+      setParent(a, undefined);
+      expect(getDepth(a1)).toBe(1);
+    });
+  });
+
+  test('delete subtrees', async() => {
+    const world = await World.create({defs: [Parent]});
+    let root: Entity;
+    world.build(system => {
+      root = system.createEntity(Node, {name: 'root'}).hold();
+      let parent = root;
+      for (let i = 0; i < 3; i++) {
+        const child = system.createEntity(Node, {name: `child${i}`});
+        setParent(child, parent);
+        parent = child;
+      }
+      setParent(system.createEntity(Node, {name: 'sibling'}), root);
+      system.createEntity(Node, {name: 'unrelated'});
+    });
+    expect(world.stats.numEntities).toBe(6);
+    world.build(() => {
+      root.delete();
+    });
+    await world.execute();
+    expect(world.stats.numEntities).toBe(1);
+  });
+
+  test('re-sort when a listed entity gets its first parent', async() => {
+    const world = await World.create({defs: [ListNodes, Parent]});
+    const roots: Record<string, Entity> = {};
+    world.build(system => {
+      roots.x = system.createEntity(Node, {name: 'x'}).hold();
+      roots.y = system.createEntity(Node, {name: 'y'}).hold();
+    });
+    await world.execute();
+    // Move whichever root is listed first under the other one.
+    const [child, parent] = order;
+    world.build(() => {
+      setParent(roots[child], roots[parent]);
+    });
+    await world.execute();
+    expect(order).toEqual([parent, child]);
+  });
+
+  test('re-sort descendants when an unlisted ancestor moves', async() => {
+    const world = await World.create({defs: [ListNodes, Parent]});
+    let b: Entity, hub: Entity;
+    world.build(system => {
+      hub = system.createEntity().hold();
+      setParent(system.createEntity(Node, {name: 'a'}), hub);
+      b = system.createEntity(Node, {name: 'b'}).hold();
+      const bParent = system.createEntity();
+      setParent(bParent, system.createEntity());
+      setParent(b, bParent);
+    });
+    await world.execute();
+    expect(order).toEqual(['a', 'b']);
+    world.build(() => {
+      // Only the unlisted hub moves, but that pushes a below b.
+      setParent(hub, b);
+    });
+    await world.execute();
+    expect(order).toEqual(['b', 'a']);
+  });
+
+  test('order query results parents first', async() => {
+    const world = await World.create({defs: [ListNodes, Parent]});
+    let leaf: Entity, root: Entity;
+    world.build(system => {
+      leaf = system.createEntity(Node, {name: 'leaf'}).hold();
+      const middle = system.createEntity(Node, {name: 'middle'});
+      root = system.createEntity(Node, {name: 'root'}).hold();
+      setParent(leaf, middle);
+      setParent(middle, root);
+    });
+    await world.execute();
+    expect(order).toEqual(['root', 'middle', 'leaf']);
+    world.build(() => {
+      const middle = leaf.read(Parent).parent!;
+      setParent(leaf, root);
+      setParent(middle, leaf);
+    });
+    await world.execute();
+    expect(order).toEqual(['root', 'leaf', 'middle']);
+    world.build(() => {
+      root.delete();
+    });
+    await world.execute();
+    expect(order).toEqual([]);
+  });
+
+});
@@ -9,6 +9,25 @@ import {component, field, System, SystemType, Type, World} from '../src';
   @field(Type.uint8) declare value: number;
 }
 
+const hookEvents: string[] = [];
+
+@component class Hooked {
+  @field(Type.uint8) declare value: number;
+
+  static onAdd(hooked: Hooked): void {
+    hookEvents.push(`add ${hooked.value}`);
+    hooked.value += 1;
+  }
+
+  static onRemove(hooked: Readonly<Hooked>): void {
+    hookEvents.push(`remove ${hooked.value}`);
+  }
+
+  static onDelete(hooked: Readonly<Hooked>): void {
+    hookEvents.push(`delete ${hooked.value}`);
+  }
+}
+
 
 let lastValue = 0;
 
@@ -60,3 +79,58 @@ describe('removing components', () => {
   });
 
 });
+
+describe('looking up entities', () => {
+
+  test('get entity by stable ID', async() => {
+    const world = await World.create({maxEntities: 2, defs: []});
+    let stableId = 0;
+    world.build(system => {
+      stableId = system.createEntity(A, {value: 7}).stableId;
+    });
+    world.build(system => {
+      expect(system.getEntity(stableId)?.read(A).value).toBe(7);
+    });
+  });
+
+  test('detect stale stable IDs', async() => {
+    const world = await World.create({maxEntities: 10, defs: []});
+    let stableId = 0;
+    world.build(system => {
+      const entity = system.createEntity(A);
+      stableId = entity.stableId;
+      entity.delete();
+      expect(system.getEntity(stableId)).toBeUndefined();
+    });
+    await world.execute();
+    await world.execute();
+    world.build(system => {
+      const entity = system.createEntity(A);
+      expect((entity as any).__id).toBe(0);  // slot got reused
+      expect(entity.stableId).not.toBe(stableId);
+      expect(system.getEntity(stableId)).toBeUndefined();
+      expect(system.getEntity(entity.stableId)?.isSame(entity)).toBe(true);
+    });
+  });
+
+});
+
+describe('lifecycle hooks', () => {
+
+  test('invoke hooks on add, remove, and delete', async() => {
+    const world = await createWorld();
+    hookEvents.length = 0;
+    world.build(system => {
+      const e1 = system.createEntity(Hooked, {value: 1});
+      const e2 = system.createEntity(Hooked, {value: 5});
+      expect(e1.read(Hooked).value).toBe(2);
+      e1.remove(Hooked);
+      e2.delete();
+    });
+    expect(hookEvents).toEqual(['add 1', 'add 5']);
+    await world.execute();
+    await world.execute();
+    expect(hookEvents).toEqual(['add 1', 'add 5', 'remove 2', 'delete 6']);
+  });
+
+});
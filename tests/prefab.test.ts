@@ -0,0 +1,86 @@
+import {component, Entity, field, Type, World} from '../src';
+
+
+@component class Position {
+  @field(Type.float64) declare x: number;
+  @field(Type.float64) declare y: number;
+}
+
+@component class Health {
+  @field(Type.uint16) declare value: number;
+}
+
+@component class Sprite {
+  @field(Type.dynamicString(20)) declare image: string;
+}
+
+@component class Weapon {
+  @field(Type.ref) declare owner?: Entity;
+  @field(Type.uint8) declare damage: number;
+}
+
+@component class Armed {
+  @field(Type.backrefs(Weapon, 'owner')) declare weapons: Entity[];
+}
+
+
+describe('prefabs', () => {
+
+  test('instantiate prefab with overrides', async() => {
+    const world = await World.create();
+    const goblin =
+      world.definePrefab('Goblin', [Position, Health, {value: 30}, Sprite, {image: 'goblin.png'}]);
+    world.build(system => {
+      const g1 = system.createEntity(goblin);
+      expect(g1.read(Health).value).toBe(30);
+      expect(g1.read(Sprite).image).toBe('goblin.png');
+      const g2 = system.createEntity('Goblin', {Health: {value: 50}, Position: {x: 1}});
+      expect(g2.read(Health).value).toBe(50);
+      expect(g2.read(Position).x).toBe(1);
+      expect(g2.read(Sprite).image).toBe('goblin.png');
+      expect(() => system.createEntity(goblin, {Weapon: {damage: 1}})).toThrow(
+        `doesn't include a Weapon component`);
+    });
+    expect(world.stats.numEntities).toBe(2);
+  });
+
+  test('define prefabs from JSON with inheritance and children', async() => {
+    const world = await World.create();
+    world.definePrefabs(JSON.stringify({
+      GoblinChief: {
+        extends: 'Goblin',
+        components: {Health: {value: 80}, Armed: null},
+        children: [
+          {prefab: 'Sword', link: 'Weapon.owner'},
+          {prefab: 'Sword', link: 'Weapon.owner', overrides: {Weapon: {damage: 9}}}
+        ]
+      },
+      Goblin: {components: {Position: {x: 5}, Health: {value: 30}, Sprite: {image: 'goblin.png'}}},
+      Sword: {components: {Weapon: {damage: 3}}}
+    }));
+    world.build(system => {
+      const chief = system.createEntity('GoblinChief');
+      expect(chief.read(Health).value).toBe(80);
+      expect(chief.read(Position).x).toBe(5);
+      expect(chief.read(Sprite).image).toBe('goblin.png');
+      const weapons = chief.read(Armed).weapons;
+      expect(weapons.map(weapon => weapon.read(Weapon).damage).sort()).toEqual([3, 9]);
+      expect(weapons[0].read(Weapon).owner!.isSame(chief)).toBe(true);
+    });
+    expect(world.stats.numEntities).toBe(3);
+  });
+
+  test('reject bad prefab definitions', async() => {
+    const world = await World.create();
+    expect(() => world.definePrefabs({A: {extends: 'B'}, B: {extends: 'A'}})).toThrow(
+      'refers to itself');
+    expect(() => world.definePrefab('A', {components: {Nope: {}}})).toThrow(
+      'Nope not defined in world');
+    expect(() => world.definePrefabs({
+      A: {components: {Health: {}}, children: [{prefab: 'A2', link: 'Weapon.owner'}]},
+      A2: {components: {Health: {}}}
+    })).toThrow('must name a field');
+    expect(() => world.createEntity('Missing')).toThrow('Unknown prefab Missing');
+  });
+
+});
@@ -1,4 +1,6 @@
-import {component, ComponentType, field, Query, System, SystemType, Type, World} from '../src';
+import {
+  component, ComponentType, Entity, field, Query, System, SystemType, Type, World
+} from '../src';
 
 
 @component class A {
@@ -15,6 +17,10 @@ import {component, ComponentType, field, Query, System, SystemType, Type, World}
 
 @component class D {}
 
+@component class E {
+  @field(Type.ref) declare owner?: Entity;
+}
+
 
 class IncrementA extends System {
   sked = this.schedule(s => s.afterWritesTo(A));
@@ -63,6 +69,16 @@ class IncrementAWithD extends System {
   }
 }
 
+class IncrementBWithCOrD extends System {
+  sked = this.schedule(s => s.afterWritesTo(B));
+  entities = this.query(q => q.current.with(B).write.withAny(C, D));
+  execute() {
+    for (const entity of this.entities.current) {
+      entity.write(B).value += 1;
+    }
+  }
+}
+
 class AddCToA extends System {
   entities = this.query(q => q.current.with(A).write.and.using(C).write);
   execute() {
@@ -108,6 +124,90 @@ class CreateAForEachC extends System {
   }
 }
 
+let sortedValues: number[] = [];
+
+class SortA extends System {
+  entities = this.query(q => q.current.with(A).orderBy(A, 'value'));
+  execute() {
+    sortedValues = this.entities.current.map(entity => entity.read(A).value);
+  }
+}
+
+class SortAByNegatedC extends System {
+  entities = this.query(
+    q => q.current.with(A).with(C).track.orderBy(entity => -entity.read(C).value));
+
+  execute() {
+    sortedValues = this.entities.current.map(entity => entity.read(A).value);
+  }
+}
+
+class BumpLowestA extends System {
+  sked = this.schedule(s => s.before(SortA));
+  entities = this.query(q => q.current.with(A).write);
+  execute() {
+    let lowest;
+    for (const entity of this.entities.current) {
+      if (!lowest || entity.read(A).value < lowest.read(A).value) lowest = entity;
+    }
+    if (lowest) lowest.write(A).value += 10;
+  }
+}
+
+let groupSizes: Record<string, number> = {};
+
+class GroupA extends System {
+  entities = this.query(q => q.current.with(A).groupBy(A, 'value'));
+
+  execute() {
+    groupSizes = {};
+    for (const [key, group] of this.entities.groups) groupSizes[String(key)] = group.length;
+  }
+}
+
+class GroupACByA extends System {
+  entities = this.query(q => q.current.with(A, C).groupBy(A, 'value'));
+
+  execute() {
+    groupSizes = {};
+    for (const [key, group] of this.entities.groups) groupSizes[String(key)] = group.length;
+  }
+}
+
+let filteredValues: number[] = [];
+
+class FilterLowA extends System {
+  entities = this.query(q => q.current.with(A).where(A, a => a.value < 3));
+  execute() {
+    filteredValues = this.entities.current.map(entity => entity.read(A).value).sort();
+  }
+}
+
+class FilterAWithoutC extends System {
+  entities = this.query(q => q.current.where(A, 'value', '>=', 2).without(C));
+  execute() {
+    filteredValues = this.entities.current.map(entity => entity.read(A).value).sort();
+  }
+}
+
+let changedCount = 0;
+
+class CountChangedCWithLowA extends System {
+  entities = this.query(q => q.changed.with(C).track.where(A, a => a.value < 100));
+  execute() {
+    changedCount = this.entities.changed.length;
+  }
+}
+
+let joinedCount = 0;
+
+class CountEOwnedByB extends System {
+  entities = this.query(q => q.current.with(E).through(E, 'owner', t => t.with(B).but.without(D)));
+  execute() {
+    joinedCount = this.entities.current.length;
+  }
+}
+
 
 let total: {[key: string]: number} = {a: 0, b: 0, c: 0};
 
@@ -180,6 +280,26 @@ describe('basic queries, current iteration, reads and writes', () => {
     expect(total.a).toBe(1);
   });
 
+  test('iterate type union', async() => {
+    const world = await createWorld(IncrementBWithCOrD);
+    world.createEntity(B);
+    world.createEntity(B, C);
+    world.createEntity(B, D);
+    world.createEntity(B, C, D);
+    world.createEntity(C, D);
+    await world.execute();
+    expect(total.b).toBe(3);
+  });
+
+  test('iterate type union after removing an alternative', async() => {
+    const world = await createWorld(RemoveCFromAC, IncrementBWithCOrD);
+    world.createEntity(A, B, C);
+    world.createEntity(B, C);
+    world.createEntity(A, B, C, D);
+    await world.execute();
+    expect(total.b).toBe(2);
+  });
+
   test('iterate type exclusion', async() => {
     const world = await createWorld(IncrementANotC);
     world.createEntity(A);
@@ -251,3 +371,167 @@ describe('creating and deleting entities', () => {
 
 });
 
+describe('sorted queries', () => {
+
+  test('sort by field', async() => {
+    const world = await createWorld(SortA);
+    world.createEntity(A, {value: 3});
+    world.createEntity(A, {value: 1});
+    world.createEntity(A, {value: 2});
+    await world.execute();
+    expect(sortedValues).toEqual([1, 2, 3]);
+    world.build(sys => {
+      sys.createEntity(A, {value: 0});
+    });
+    await world.execute();
+    expect(sortedValues).toEqual([0, 1, 2, 3]);
+  });
+
+  test('re-sort when key field written', async() => {
+    const world = await createWorld(BumpLowestA, SortA);
+    world.createEntity(A, {value: 3});
+    world.createEntity(A, {value: 1});
+    world.createEntity(A, {value: 2});
+    await world.execute();
+    expect(sortedValues).toEqual([2, 3, 11]);
+    await world.execute();
+    expect(sortedValues).toEqual([3, 11, 12]);
+  });
+
+  test('sort by function of tracked component', async() => {
+    const world = await createWorld(SortAByNegatedC);
+    world.createEntity(A, {value: 1}, C, {value: 1});
+    world.createEntity(A, {value: 2}, C, {value: 2});
+    world.createEntity(A, {value: 3}, C);
+    await world.execute();
+    expect(sortedValues).toEqual([2, 1, 3]);
+  });
+
+});
+
+describe('grouped queries', () => {
+
+  test('group by field', async() => {
+    const world = await createWorld(GroupA);
+    world.createEntity(A, {value: 1});
+    world.createEntity(A, {value: 1});
+    world.createEntity(A, {value: 2});
+    await world.execute();
+    expect(groupSizes).toEqual({1: 2, 2: 1});
+  });
+
+  test('regroup when field written', async() => {
+    const world = await createWorld(IncrementANotC, GroupA);
+    world.createEntity(A, {value: 1});
+    world.createEntity(A, {value: 2});
+    world.createEntity(A, {value: 2}, C);
+    await world.execute();
+    expect(groupSizes).toEqual({2: 2, 3: 1});
+    await world.execute();
+    expect(groupSizes).toEqual({2: 1, 3: 1, 4: 1});
+  });
+
+  test('drop entities that no longer match', async() => {
+    const world = await createWorld(RemoveCFromAC, GroupACByA);
+    world.createEntity(A, {value: 1}, C);
+    await world.execute();
+    expect(groupSizes).toEqual({});
+  });
+
+});
+
+describe('filtered queries', () => {
+
+  test('filter by predicate', async() => {
+    const world = await createWorld(FilterLowA);
+    world.createEntity(A, {value: 1});
+    world.createEntity(A, {value: 2});
+    world.createEntity(A, {value: 3});
+    await world.execute();
+    expect(filteredValues).toEqual([1, 2]);
+  });
+
+  test('re-filter when field written', async() => {
+    const world = await createWorld(IncrementA, FilterLowA);
+    world.createEntity(A, {value: 0});
+    world.createEntity(A, {value: 1});
+    await world.execute();
+    expect(filteredValues).toEqual([1, 2]);
+    await world.execute();
+    expect(filteredValues).toEqual([2]);
+    await world.execute();
+    expect(filteredValues).toEqual([]);
+  });
+
+  test('filter by field comparison', async() => {
+    const world = await createWorld(RemoveCFromAC, FilterAWithoutC);
+    world.createEntity(A, {value: 1});
+    world.createEntity(A, {value: 2});
+    world.createEntity(A, {value: 3}, C);
+    world.createEntity(B);
+    await world.execute();
+    expect(filteredValues).toEqual([2, 3]);
+  });
+
+});
+
+describe('tracking writes for clauses', () => {
+
+  test('keep clause components out of changed results', async() => {
+    const world = await createWorld(IncrementA, CountChangedCWithLowA);
+    world.createEntity(A, {value: 1}, C);
+    await world.execute();
+    await world.execute();
+    expect(changedCount).toBe(0);
+  });
+
+  test('report changes to tracked components', async() => {
+    const world = await createWorld(IncrementC, CountChangedCWithLowA);
+    world.createEntity(A, {value: 1}, C);
+    await world.execute();
+    await world.execute();
+    expect(changedCount).toBe(1);
+  });
+
+});
+
+describe('joined queries', () => {
+
+  test('follow refs to matching targets', async() => {
+    const world = await createWorld(CountEOwnedByB);
+    let a: Entity, b: Entity, e1: Entity;
+    world.build(sys => {
+      a = sys.createEntity(A).hold();
+      b = sys.createEntity(B).hold();
+      e1 = sys.createEntity(E, {owner: b}).hold();
+      sys.createEntity(E, {owner: a});
+      sys.createEntity(E);
+    });
+    await world.execute();
+    expect(joinedCount).toBe(1);
+    world.build(() => {
+      a.add(B);
+    });
+    await world.execute();
+    expect(joinedCount).toBe(2);
+    world.build(() => {
+      e1.write(E).owner = undefined;
+      b.add(D);
+    });
+    await world.execute();
+    expect(joinedCount).toBe(1);
+    world.build(() => {
+      a.delete();
+    });
+    await world.execute();
+    expect(joinedCount).toBe(0);
+  });
+
+  test('reject through clause on non-ref field', async() => {
+    class BadJoin extends System {
+      entities = this.query(q => q.current.with(A).through(A, 'value', t => t.with(B)));
+    }
+    await expect(createWorld(BadJoin)).rejects.toThrow('is not a ref');
+  });
+
+});
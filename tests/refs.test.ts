@@ -34,6 +34,24 @@ import {
   @field(Type.backrefs(undefined, undefined, true)) declare targeters: Entity[];
 }
 
+@component class RemovingOrigin {
+  @field(Type.uint8) declare value: number;
+  @field(Type.ref({onTargetDeleted: 'remove'})) declare target?: Entity;
+}
+
+@component class DeletingOrigin {
+  @field(Type.uint8) declare value: number;
+  @field(Type.ref({onTargetDeleted: 'delete'})) declare target?: Entity;
+}
+
+@component class Squad {
+  @field(Type.refs(3)) declare members: (Entity | undefined)[];
+}
+
+@component class SquadMember {
+  @field(Type.backrefs(Squad, 'members')) declare squads: Entity[];
+}
+
 const componentTypes =
   [Origin, MultiOrigin, PreciseDest, TypeDest, GlobalDest, GlobalDestWithStales];
 
@@ -228,6 +246,29 @@ describe('follow backward references', () => {
       expect(d1.read(GlobalDestWithStales).targeters.length).toBe(1);
     });
   });
+
+  test('backrefs follow reassigned refs', async() => {
+    const world = await createWorld();
+    let o: Entity, d1: Entity;
+    world.build(sys => {
+      d1 = sys.createEntity(GlobalDest).hold();
+      const d2 = sys.createEntity(GlobalDest);
+      o = sys.createEntity(Origin, {target: d1}).hold();
+      o.write(Origin).target = d2;
+      expect(d1.read(GlobalDest).targeters.length).toBe(0);
+      expect(d2.read(GlobalDest).targeters.length).toBe(1);
+      o.write(Origin).target = undefined;
+      expect(d2.read(GlobalDest).targeters.length).toBe(0);
+      o.write(Origin).target = d1;
+      o.remove(Origin);
+    });
+    await world.execute();
+    await world.execute();
+    world.build(sys => {
+      o.add(Origin, {target: d1});
+      expect(d1.read(GlobalDest).targeters.length).toBe(1);
+    });
+  });
 });
 
 describe('backrefs storage variants', () => {
@@ -318,4 +359,104 @@ describe('refs affected by entity deletion', () => {
     await world.execute();
     expect(o!.read(Origin).target?.isSame(d2!)).toBe(true);
   });
+
+  test('remove component with null ref', async() => {
+    const world = await createWorld();
+    world.build(sys => {
+      const o = sys.createEntity(Origin);
+      o.remove(Origin);
+      expect(o.has(Origin)).toBe(false);
+    });
+    await world.execute();
+    await world.execute();
+  });
+
+  test('remove holding component when target deleted', async() => {
+    const world = await createWorld();
+    let o: Entity;
+    world.build(sys => {
+      const d1 = sys.createEntity(GlobalDest);
+      o = sys.createEntity(RemovingOrigin, {target: d1}, Origin, {target: d1}).hold();
+      d1.delete();
+      expect(o.has(RemovingOrigin)).toBe(false);
+      expect(o.has(Origin)).toBe(true);
+      expect(o.read(Origin).target).toBe(undefined);
+    });
+    await world.execute();
+    await world.execute();
+    expect(o!.has(RemovingOrigin)).toBe(false);
+    expect(o!.has(Origin)).toBe(true);
+  });
+
+  test('delete holding entity when target deleted', async() => {
+    const world = await createWorld();
+    world.build(sys => {
+      const d1 = sys.createEntity(GlobalDest);
+      const o1 = sys.createEntity(DeletingOrigin, {target: d1});
+      const o2 = sys.createEntity(DeletingOrigin, {target: o1});
+      const o3 = sys.createEntity(Origin, {target: o2});
+      expect(world.stats.numEntities).toBe(4);
+      d1.delete();
+      expect(o1.has(DeletingOrigin)).toBe(false);
+      expect(o2.has(DeletingOrigin)).toBe(false);
+      expect(o3.has(Origin)).toBe(true);
+      expect(o3.read(Origin).target).toBe(undefined);
+    });
+    await world.execute();
+    await world.execute();
+    expect(world.stats.numEntities).toBe(1);
+  });
+});
+
+describe('multi-target refs', () => {
+
+  test('set and read refs', async() => {
+    const world = await createWorld();
+    world.build(sys => {
+      const m1 = sys.createEntity(SquadMember);
+      const m2 = sys.createEntity(SquadMember);
+      const squad = sys.createEntity(Squad, {members: [m1, m2]});
+      expect([...squad.read(Squad).members].map(e => e?.isSame(m1))).toEqual(
+        [true, false, undefined]);
+      squad.write(Squad).members[2] = m1;
+      expect(squad.read(Squad).members[2]!.isSame(m1)).toBe(true);
+      expect(() => {squad.write(Squad).members = [m1, m1, m1, m1];}).toThrow();
+    });
+  });
+
+  test('track backrefs', async() => {
+    const world = await createWorld();
+    world.build(sys => {
+      const m1 = sys.createEntity(SquadMember);
+      const m2 = sys.createEntity(SquadMember);
+      const squad = sys.createEntity(Squad, {members: [m1, m2, m1]});
+      expect(m1.read(SquadMember).squads.length).toBe(1);
+      expect(m2.read(SquadMember).squads.length).toBe(1);
+      squad.write(Squad).members[1] = undefined;
+      expect(m2.read(SquadMember).squads.length).toBe(0);
+      squad.write(Squad).members[0] = undefined;
+      expect(m1.read(SquadMember).squads.length).toBe(1);
+      squad.remove(Squad);
+      expect(m1.read(SquadMember).squads.length).toBe(0);
+    });
+  });
+
+  test('clear refs to deleted targets', async() => {
+    const world = await createWorld();
+    let squad: Entity;
+    world.build(sys => {
+      const m1 = sys.createEntity(SquadMember);
+      const m2 = sys.createEntity(SquadMember);
+      squad = sys.createEntity(Squad, {members: [m1, m2, m1]}).hold();
+      m1.delete();
+      expect([...squad.read(Squad).members].map(e => e?.isSame(m2))).toEqual(
+        [undefined, true, undefined]);
+    });
+    await world.execute();
+    await world.execute();
+    world.build(sys => {
+      expect([...squad.read(Squad).members].map(e => !!e)).toEqual([false, true, false]);
+    });
+  });
+
 });
@@ -0,0 +1,166 @@
+import {Entity, System, Type, World} from '../src';
+
+
+// Each world needs its own component classes, so we define matching sets for server and client.
+function defineComponentTypes() {
+  class Position {
+    static schema = {x: Type.float64, y: Type.float64, tag: Type.dynamicString(10)};
+    declare x: number;
+    declare y: number;
+    declare tag: string;
+  }
+
+  class Follower {
+    static schema = {leader: Type.ref};
+    declare leader?: Entity;
+  }
+
+  class Leader {
+    static schema = {followers: Type.backrefs};
+    declare followers: Entity[];
+  }
+
+  class Score {
+    static options = {singleton: true};
+    static schema = {points: Type.uint32};
+    declare points: number;
+  }
+
+  return {Position, Follower, Leader, Score};
+}
+
+const server = defineComponentTypes();
+const client = defineComponentTypes();
+
+let positions: {x: number, y: number, tag: string, followers: number}[];
+let leaderXs: number[];
+
+class Capture extends System {
+  positionEntities = this.query(q => q.current.with(client.Position, client.Leader));
+  followerEntities = this.query(q => q.current.with(client.Follower));
+
+  execute() {
+    positions = this.positionEntities.current.map(entity => {
+      const {x, y, tag} = entity.read(client.Position);
+      return {x, y, tag, followers: entity.read(client.Leader).followers.length};
+    });
+    leaderXs = this.followerEntities.current.map(
+      entity => entity.read(client.Follower).leader?.read(client.Position).x ?? NaN);
+  }
+}
+
+let points: number;
+
+class ReadScore extends System {
+  score = this.query(q => q.using(client.Score));
+  execute() {
+    points = this.singleton.read(client.Score).points;
+  }
+}
+
+class Move extends System {
+  entities = this.query(q => q.current.with(server.Position).write);
+
+  execute() {
+    for (const entity of this.entities.current) entity.write(server.Position).x += 1;
+  }
+}
+
+
+describe('replication', () => {
+
+  let serverWorld: World, clientWorld: World;
+
+  beforeEach(async() => {
+    serverWorld = await World.create({
+      defs: [Object.values(server), Move], replicate: true, maxEntities: 100
+    });
+    clientWorld = await World.create({defs: [Object.values(client), Capture], maxEntities: 100});
+  });
+
+  test('replicate initial state and changes', async() => {
+    let leader: Entity;
+    serverWorld.build(system => {
+      leader = system.createEntity(server.Position, {x: 1, y: 2, tag: 'a'}, server.Leader).hold();
+      system.createEntity(server.Follower, {leader});
+    });
+    const encoder = serverWorld.createReplicationEncoder();
+    const decoder = clientWorld.createReplicationDecoder();
+    decoder.decode(encoder.encode());
+    await clientWorld.execute();
+    expect(positions).toEqual([{x: 1, y: 2, tag: 'a', followers: 1}]);
+    expect(leaderXs).toEqual([1]);
+
+    await serverWorld.execute();
+    decoder.decode(encoder.encode());
+    await clientWorld.execute();
+    expect(positions).toEqual([{x: 2, y: 2, tag: 'a', followers: 1}]);
+
+    serverWorld.build(system => {
+      system.createEntity(server.Position, {x: 10, tag: 'b'}, server.Leader);
+      leader.remove(server.Leader);
+    });
+    decoder.decode(encoder.encode());
+    await clientWorld.execute();
+    expect(positions).toEqual([{x: 10, y: 0, tag: 'b', followers: 0}]);
+    expect(leaderXs).toEqual([2]);
+
+    serverWorld.build(() => {
+      leader.delete();
+    });
+    decoder.decode(encoder.encode());
+    await clientWorld.execute();
+    expect(leaderXs).toEqual([NaN]);
+  });
+
+  test('keep singletons local to each world', async() => {
+    clientWorld = await World.create({
+      defs: [Object.values(client), Capture, ReadScore], maxEntities: 100
+    });
+    serverWorld.build(system => {
+      system.createEntity(server.Position, {x: 1, tag: 'a'}, server.Leader);
+      system.singleton.write(server.Score).points = 5;
+    });
+    const encoder = serverWorld.createReplicationEncoder();
+    const decoder = clientWorld.createReplicationDecoder();
+    decoder.decode(encoder.encode());
+    await clientWorld.execute();
+    expect(positions).toEqual([{x: 1, y: 0, tag: 'a', followers: 0}]);
+    expect(points).toBe(0);
+
+    serverWorld.build(system => {
+      system.singleton.write(server.Score).points = 7;
+    });
+    await serverWorld.execute();
+    decoder.decode(encoder.encode());
+    await clientWorld.execute();
+    expect(positions).toEqual([{x: 2, y: 0, tag: 'a', followers: 0}]);
+    expect(points).toBe(0);
+  });
+
+  test('send only changed fields', () => {
+    let entity: Entity;
+    serverWorld.build(system => {
+      entity = system.createEntity(server.Position, {x: 1, y: 2, tag: 'abc'}).hold();
+    });
+    const encoder = serverWorld.createReplicationEncoder();
+    encoder.encode();
+    expect(encoder.encode().byteLength).toBe(17);  // just the header and empty entity lists
+    serverWorld.build(() => {
+      entity.write(server.Position).x = 5;
+    });
+    expect(encoder.encode().byteLength).toBe(17 + 13 + 13);  // one record with one number field
+    serverWorld.build(() => {
+      entity.write(server.Position).x = 5;
+    });
+    expect(encoder.encode().byteLength).toBe(17);
+  });
+
+  test('reject diffs out of order', () => {
+    const encoder = serverWorld.createReplicationEncoder();
+    const decoder = clientWorld.createReplicationDecoder();
+    encoder.encode();
+    expect(() => decoder.decode(encoder.encode())).toThrow('before the initial one');
+  });
+
+});
@@ -0,0 +1,102 @@
+import {component, Entity, field, System, Type, World} from '../src';
+
+
+@component class Item {
+  @field(Type.uint8) declare value: number;
+  @field(Type.boolean) declare flag: boolean;
+  @field(Type.dynamicString(20)) declare label: string;
+  @field(Type.array(Type.int16, 2)) declare coords: number[];
+  @field(Type.struct({x: Type.float32, visible: Type.boolean})) declare pos: any;
+  @field(Type.object) declare extra: any;
+}
+
+@component class Pointer {
+  @field(Type.ref) declare target?: Entity;
+}
+
+@component class Pointee {
+  @field(Type.backrefs) declare pointers: Entity[];
+}
+
+let items: any[];
+let pointers: any[];
+
+class Capture extends System {
+  itemEntities = this.query(q => q.current.with(Item, Pointee));
+  pointerEntities = this.query(q => q.current.with(Pointer));
+
+  execute() {
+    items = this.itemEntities.current.map(entity => {
+      const item = entity.read(Item);
+      return {
+        id: (entity as any).__id, value: item.value, flag: item.flag, label: item.label,
+        coords: Array.from(item.coords), x: item.pos.x, visible: item.pos.visible,
+        extra: item.extra, pointers: entity.read(Pointee).pointers.map(e => (e as any).__id)
+      };
+    });
+    pointers = this.pointerEntities.current.map(entity => ({
+      id: (entity as any).__id, target: (entity.read(Pointer).target as any).__id
+    }));
+  }
+}
+
+
+describe('snapshots', () => {
+
+  test('restore entities, ids, values and refs', async() => {
+    const world1 = await World.create();
+    world1.build(system => {
+      const a = system.createEntity(Item, {
+        value: 7, flag: true, label: 'hello', coords: [3, -4], pos: {x: 1.5, visible: true},
+        extra: {foo: 1}
+      }, Pointee);
+      system.createEntity(Item).delete();
+      system.createEntity(Pointer, {target: a}, Pointee);
+    });
+    const snapshot = world1.snapshot();
+    expect(snapshot).toBeInstanceOf(Uint8Array);
+
+    const world2 = await World.create({snapshot, defs: [Capture]});
+    await world2.execute();
+    expect(items).toEqual([{
+      id: 0, value: 7, flag: true, label: 'hello', coords: [3, -4], x: 1.5, visible: true,
+      extra: undefined, pointers: [2]
+    }]);
+    expect(pointers).toEqual([{id: 2, target: 0}]);
+    world2.build(system => {
+      expect((system.createEntity() as any).__id).toBe(1);
+    });
+  });
+
+  test('keep stable ids valid', async() => {
+    const world1 = await World.create();
+    let deletedId = 0, survivorId = 0;
+    world1.build(system => {
+      system.createEntity(Item).delete();
+    });
+    await world1.execute();
+    await world1.execute();
+    world1.build(system => {
+      survivorId = system.createEntity(Item, {value: 3}).stableId;
+      const doomed = system.createEntity(Item);
+      deletedId = doomed.stableId;
+      doomed.delete();
+    });
+    const snapshot = world1.snapshot();
+
+    const world2 = await World.create({snapshot});
+    world2.build(system => {
+      expect(system.getEntity(survivorId)?.read(Item).value).toBe(3);
+      expect(system.getEntity(deletedId)).toBeUndefined();
+      const entity = system.createEntity(Item);
+      expect(entity.stableId).not.toBe(deletedId);
+      expect(entity.stableId).not.toBe(survivorId);
+    });
+  });
+
+  test('reject garbage', async() => {
+    await expect(World.create({snapshot: new Uint8Array(16)})).rejects.toThrow(
+      'Not a becsy snapshot');
+  });
+
+});
@@ -5,6 +5,16 @@ class A {
   @field(Type.int32) declare value: number;
 }
 
+@component({storage: 'compact', initialCapacity: 2})
+class B {
+  @field(Type.int32) declare value: number;
+}
+
+@component({storage: 'compact', capacity: 2})
+class C {
+  @field(Type.int32) declare value: number;
+}
+
 describe('using packed component storage', () => {
 
   test('store and read values', async() => {
@@ -108,3 +118,76 @@ describe('using packed component storage', () => {
     });
   });
 });
+
+
+describe('using compact component storage', () => {
+
+  test('store and read values', async() => {
+    const world = await World.create();
+    world.build(system => {
+      const entity1 = system.createEntity(B, {value: 1});
+      const entity2 = system.createEntity(B, {value: 2});
+      expect(entity1.read(B).value).toBe(1);
+      expect(entity2.read(B).value).toBe(2);
+      expect(world.stats.for(B).numEntities).toBe(2);
+    });
+  });
+
+  test('expand capacity', async() => {
+    const world = await World.create();
+    world.build(system => {
+      const entity1 = system.createEntity(B, {value: 1});
+      const entity2 = system.createEntity(B, {value: 2});
+      expect(world.stats.for(B).capacity).toBe(2);
+      const entity3 = system.createEntity(B, {value: 3});
+      expect(world.stats.for(B).capacity).toBe(4);
+      expect(entity1.read(B).value).toBe(1);
+      expect(entity2.read(B).value).toBe(2);
+      expect(entity3.read(B).value).toBe(3);
+      expect(world.stats.for(B).numEntities).toBe(3);
+    });
+  });
+
+  test('reuse spare slots', async() => {
+    const world = await World.create();
+    world.build(system => {
+      const entity1 = system.createEntity(B, {value: 1});
+      const entity2 = system.createEntity(B, {value: 2});
+      entity1.remove(B);
+      expect(entity1.has(B)).toBe(false);
+      expect(entity2.read(B).value).toBe(2);
+    });
+    // flush out the removed component
+    await world.execute();
+    await world.execute();
+    world.build(system => {
+      const entity3 = system.createEntity(B, {value: 3});
+      expect(entity3.read(B).value).toBe(3);
+      expect(world.stats.for(B).numEntities).toBe(2);
+      expect(world.stats.for(B).capacity).toBe(2);
+    });
+  });
+
+  test('resurrect components', async() => {
+    const world = await World.create();
+    let entity1: Entity;
+    world.build(system => {
+      entity1 = system.createEntity(B, {value: 1}).hold();
+      entity1.remove(B);
+      entity1.add(B, {value: 2});
+    });
+    await world.execute();
+    await world.execute();
+    expect(entity1!.has(B)).toBe(true);
+    expect(entity1!.read(B).value).toBe(2);
+  });
+
+  test('exhaust fixed capacity', async() => {
+    const world = await World.create();
+    world.build(system => {
+      system.createEntity(C, {value: 1});
+      system.createEntity(C, {value: 2});
+      expect(() => system.createEntity(C, {value: 3})).toThrow();
+    });
+  });
+});
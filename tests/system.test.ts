@@ -1,6 +1,12 @@
-import {System, World} from '../src';
+import {component, field, System, Type, World} from '../src';
 
 let message: string;
+let clockTicks: number;
+const executed: string[] = [];
+
+@component class Counter {
+  @field(Type.int32) declare value: number;
+}
 
 class SystemA extends System {
   message: string;
@@ -17,6 +23,98 @@ class SystemB extends System {
   }
 }
 
+class IncrementCounter extends System {
+  entities = this.query(q => q.current.with(Counter).write);
+  execute() {
+    executed.push('IncrementCounter');
+    for (const entity of this.entities.current) entity.write(Counter).value += 1;
+  }
+}
+
+class ReadCounter extends System {
+  entities = this.query(q => q.current.with(Counter));
+  value: number;
+  execute() {
+    executed.push('ReadCounter');
+    for (const entity of this.entities.current) this.value = entity.read(Counter).value;
+  }
+}
+
+@component({singleton: true}) class Clock {
+  @field(Type.int32) declare ticks: number;
+}
+
+class AdvanceClock extends System {
+  clock = this.query(q => q.using(Clock).write);
+  execute() {
+    this.singleton.write(Clock).ticks += 1;
+  }
+}
+
+class ReadClock extends System {
+  clock = this.query(q => q.using(Clock));
+  execute() {
+    clockTicks = this.singleton.read(Clock).ticks;
+  }
+}
+
+class ReadClockUndeclared extends System {
+  execute() {
+    this.singleton.read(Clock);
+  }
+}
+
+const steps: [number, number][] = [];
+const alphas: number[] = [];
+
+class Step extends System {
+  execute() {
+    steps.push([this.time, this.delta]);
+  }
+}
+
+class Render extends System {
+  execute() {
+    alphas.push(this.alpha);
+  }
+}
+
+class QuotedName extends System {
+  entities = this.query(q => q.current.with(Counter));
+  get name(): string {return 'Read "Counter" #1';}
+}
+
+let paused = false;
+
+class Pausable extends System {
+  counters = this.query(q => q.current.with(Counter));
+  sked = this.schedule(s => s.runIf(() => !paused).runIf(this.counters));
+  execute() {
+    executed.push('Pausable');
+  }
+}
+
+
+class Churn extends System {
+  entities = this.query(q => q.current.with(Counter).write);
+  execute() {
+    for (const entity of this.entities.current) entity.delete();
+    for (let i = 0; i < 10; i++) this.createEntity(Counter, {value: i});
+  }
+}
+
+let removedValues: number[] = [];
+
+class WatchRemovals extends System {
+  counters = this.query(q => q.current.and.removed.with(Counter));
+  sked = this.schedule(s => s.runIf(() => !paused).after(Churn));
+  execute() {
+    this.accessRecentlyDeletedData();
+    removedValues = this.counters.removed.map(entity => entity.read(Counter).value);
+    executed.push(`WatchRemovals ${this.counters.current.length}`);
+  }
+}
+
 
 describe('attaching systems', () => {
 
@@ -27,3 +125,176 @@ describe('attaching systems', () => {
   });
 
 });
+
+
+describe('running on multiple threads', () => {
+
+  test('reject more than one thread until workers are supported', async() => {
+    await expect(World.create({threads: 2})).rejects.toThrow('Multithreading not yet implemented');
+  });
+
+});
+
+
+describe('describing schedules', () => {
+
+  test('label edges with their reasons', async() => {
+    const world = await World.create({defs: [SystemA, SystemB, ReadCounter, IncrementCounter]});
+    const graph = world.describeSchedule();
+    expect(graph.systems).toEqual(['SystemA', 'SystemB', 'ReadCounter', 'IncrementCounter']);
+    expect(graph.edges).toEqual([
+      {from: 'SystemB', to: 'SystemA', reason: 'explicit before', denied: false},
+      {
+        from: 'IncrementCounter', to: 'ReadCounter', reason: 'writes Counter read by ReadCounter',
+        denied: false
+      }
+    ]);
+    expect(graph.toDot()).toContain(
+      '"SystemB" -> "SystemA" [label="explicit before"];');
+    expect(graph.toMermaid()).toContain('s1 -->|"explicit before"| s0');
+  });
+
+  test('escape quotes in names', async() => {
+    const world = await World.create({defs: [QuotedName, IncrementCounter]});
+    const graph = world.describeSchedule();
+    expect(graph.toDot()).toContain('"Read \\"Counter\\" #1";');
+    const mermaid = graph.toMermaid();
+    expect(mermaid).toContain('s0["Read #quot;Counter#quot; #35;1"]');
+    expect(mermaid).toContain('|"writes Counter read by Read #quot;Counter#quot; #35;1"|');
+    expect(mermaid).not.toContain('\\');
+  });
+
+});
+
+
+describe('run conditions', () => {
+
+  test('skip systems whose conditions fail', async() => {
+    const world = await World.create({defs: [Pausable]});
+    executed.splice(0, Infinity);
+    await world.execute();
+    expect(executed).toEqual([]);
+    world.createEntity(Counter);
+    await world.execute();
+    expect(executed).toEqual(['Pausable']);
+    paused = true;
+    await world.execute();
+    paused = false;
+    await world.execute();
+    expect(executed).toEqual(['Pausable', 'Pausable']);
+  });
+
+  test('keep up with entity churn during a long pause', async() => {
+    const world = await World.create({
+      defs: [Churn, WatchRemovals], maxEntities: 50, maxLimboComponents: 50,
+      maxShapeChangesPerFrame: 100
+    });
+    await world.execute();
+    paused = true;
+    for (let i = 0; i < 50; i++) await world.execute();
+    paused = false;
+    executed.splice(0, Infinity);
+    await world.execute();
+    expect(executed).toEqual(['WatchRemovals 10']);
+    expect(removedValues).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+});
+
+
+describe('stats', () => {
+
+  test('track system executions, skips and query processing', async() => {
+    const world = await World.create({defs: [IncrementCounter, Pausable]});
+    world.createEntity(Counter);
+    world.createEntity(Counter);
+    await world.execute();
+    paused = true;
+    await world.execute();
+    paused = false;
+    const incrementStats = world.stats.systems.IncrementCounter;
+    expect(incrementStats.numExecutions).toBe(2);
+    expect(incrementStats.maxDuration).toBeGreaterThanOrEqual(incrementStats.meanDuration);
+    expect(incrementStats.queries[0].maxProcessed).toBe(2);
+    expect(incrementStats.queries[0].numProcessed).toBe(0);
+    expect(world.stats.systems.Pausable.numExecutions).toBe(1);
+    expect(world.stats.systems.Pausable.numSkips).toBe(1);
+    expect(world.stats.toString()).toMatch(/Pausable: .* 1 runs, 1 skips/);
+  });
+
+});
+
+
+describe('fixed steps', () => {
+
+  test('run group once per accumulated step', async() => {
+    const physics = System.group(Step).fixedStep(0.25, 3);
+    const graphics = System.group(Render);
+    const world = await World.create({defs: [physics, graphics]});
+    const frame = world.createCustomExecutor(physics, graphics);
+    for (const [time, delta] of [[10, 0.625], [10.125, 0.125], [10.25, 0.125], [20, 10]]) {
+      frame.begin();
+      await frame.execute(physics, time, delta);
+      await frame.execute(graphics, time, delta);
+      frame.end();
+    }
+    expect(steps).toEqual([
+      [10, 0.25], [10.25, 0.25], [10.5, 0.25], [10.75, 0.25], [11, 0.25], [11.25, 0.25]
+    ]);
+    expect(alphas).toEqual([0.5, 0, 0.5, 0.5]);
+  });
+
+  test('require a custom executor', async() => {
+    const world = await World.create({defs: [System.group(Step).fixedStep(0.25)]});
+    await expect(world.execute()).rejects.toThrow('must be executed with a custom executor');
+  });
+
+  test('reject bad steps', () => {
+    expect(() => System.group(Step).fixedStep(0)).toThrow('greater than zero');
+  });
+
+});
+
+
+describe('singletons', () => {
+
+  test('read and write singletons in dependency order', async() => {
+    const world = await World.create({defs: [ReadClock, AdvanceClock]});
+    await world.execute();
+    await world.execute();
+    expect(clockTicks).toBe(2);
+  });
+
+  test('require declared access', async() => {
+    const world = await World.create({defs: [ReadClockUndeclared]});
+    await expect(world.execute()).rejects.toThrow();
+  });
+
+  test('leave the singleton entity out of stats', async() => {
+    const world = await World.create();
+    expect(world.stats.numEntities).toBe(0);
+    world.createEntity();
+    expect(world.stats.numEntities).toBe(1);
+    expect(world.stats.maxEntities).toBe(1);
+  });
+
+  test('prevent adding, removing, or deleting singletons', async() => {
+    const world = await World.create();
+    world.build(system => {
+      expect(() => system.createEntity(Clock)).toThrow('cannot be added');
+      expect(() => system.singleton.remove(Clock)).toThrow('cannot be removed');
+      expect(() => system.singleton.delete()).toThrow('Cannot delete');
+    });
+  });
+
+  test('restore singletons from snapshot', async() => {
+    const world1 = await World.create({defs: [AdvanceClock]});
+    await world1.execute();
+    const world2 = await World.create({snapshot: world1.snapshot()});
+    world2.build(system => {
+      expect(system.singleton.read(Clock).ticks).toBe(1);
+    });
+    expect(world2.stats.numEntities).toBe(0);
+  });
+
+});
@@ -0,0 +1,48 @@
+import {component, field, System, Type, World} from '../src';
+
+
+@component class Tick {
+  @field(Type.uint32) declare count: number;
+}
+
+class CountTicks extends System {
+  entities = this.query(q => q.current.with(Tick).write);
+  execute() {
+    for (const entity of this.entities.current) entity.write(Tick).count += 1;
+  }
+}
+
+
+describe('tracing', () => {
+
+  test('record nested spans and counters', async() => {
+    const world = await World.create({defs: [CountTicks]});
+    world.createEntity(Tick);
+    world.startTrace();
+    expect(() => world.startTrace()).toThrow('Already tracing');
+    await world.execute();
+    const events = world.stopTrace();
+    expect(() => world.stopTrace()).toThrow('Not tracing');
+
+    const spans = events.filter(event => event.ph === 'B').map(event => event.name);
+    expect(spans).toEqual(
+      ['frame', 'group', 'CountTicks', 'update queries', 'flush', 'completeCycle']);
+    const depths: number[] = [];
+    let depth = 0;
+    for (const event of events) {
+      if (event.ph === 'B') depths.push(depth++);
+      if (event.ph === 'E') depth--;
+    }
+    expect(depths).toEqual([0, 1, 2, 3, 2, 1]);
+    expect(depth).toBe(0);
+    for (let i = 1; i < events.length; i++) {
+      expect(events[i].ts).toBeGreaterThanOrEqual(events[i - 1].ts);
+    }
+    const counter = events.find(event => event.name === 'entities')!;
+    expect(counter.ph).toBe('C');
+    expect(counter.args).toEqual({entities: 1});
+    const components = events.find(event => event.name === 'components')!;
+    expect(components.args).toEqual({Tick: 1});
+  });
+
+});
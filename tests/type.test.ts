@@ -19,6 +19,17 @@ class Stuff {
   @field(Type.ref) ref?: Entity;
   @field(Type.object) object: Stuff;
   @field(Type.weakObject) weakObject: Stuff;
+  @field(Type.array(Type.float32, 3)) array: number[];
+  @field(Type.struct({x: Type.float32, y: Type.int8, visible: Type.boolean}))
+    struct: {x: number, y: number, visible: boolean};
+}
+
+@component({storage: 'packed', capacity: 4}) class FixedArray {
+  @field(Type.array(Type.int16, 2)) array: number[];
+}
+
+function readStruct(struct: any): any {
+  return {x: struct.x, y: struct.y, visible: struct.visible};
 }
 
 async function testReadWrite(prop: string, values: any[]): Promise<void> {
@@ -91,6 +102,76 @@ describe('getting and setting fields of various types', () => {
     });
   });
 
+  test('array', async() => {
+    const world = await World.create();
+    world.build(system => {
+      const entity = system.createEntity(Big);
+      expect([...entity.read(Big).array]).toEqual([0, 0, 0]);
+      entity.write(Big).array[1] = 0.5;
+      expect(entity.read(Big).array[1]).toBe(0.5);
+      entity.write(Big).array = [1, 2, 3];
+      expect(entity.read(Big).array.length).toBe(3);
+      expect([...entity.read(Big).array]).toEqual([1, 2, 3]);
+      const other = system.createEntity(Big, {array: [4, 5, 6]});
+      expect([...other.read(Big).array]).toEqual([4, 5, 6]);
+      expect([...entity.read(Big).array]).toEqual([1, 2, 3]);
+    });
+  });
+
+  test('array in fixed storage', async() => {
+    const world = await World.create();
+    world.build(system => {
+      const entity1 = system.createEntity(FixedArray, {array: [1, -1]});
+      const entity2 = system.createEntity(FixedArray);
+      entity2.write(FixedArray).array[0] = 7;
+      expect([...entity1.read(FixedArray).array]).toEqual([1, -1]);
+      expect([...entity2.read(FixedArray).array]).toEqual([7, 0]);
+    });
+  });
+
+  test('array protections', async() => {
+    const world = await World.create();
+    world.build(system => {
+      const entity = system.createEntity(Big);
+      const array = entity.read(Big).array;
+      expect(() => {array[0] = 1;}).toThrow();
+      expect(() => {entity.write(Big).array = [1, 2];}).toThrow();
+      const writableArray = entity.write(Big).array;
+      entity.write(Big);
+      expect(() => {writableArray[0] = 1;}).toThrow();
+    });
+  });
+
+  test('struct', async() => {
+    const world = await World.create();
+    world.build(system => {
+      const entity = system.createEntity(Big);
+      expect(readStruct(entity.read(Big).struct)).toEqual({x: 0, y: 0, visible: false});
+      entity.write(Big).struct.x = 0.5;
+      entity.write(Big).struct.visible = true;
+      expect(entity.read(Big).struct.x).toBe(0.5);
+      expect(entity.read(Big).struct.visible).toBe(true);
+      entity.write(Big).struct = {x: 1, y: -2} as any;
+      expect(readStruct(entity.read(Big).struct)).toEqual({x: 1, y: -2, visible: false});
+      const other = system.createEntity(Big, {struct: {x: 3, y: 4, visible: true}});
+      expect(readStruct(other.read(Big).struct)).toEqual({x: 3, y: 4, visible: true});
+      expect(entity.read(Big).struct.x).toBe(1);
+    });
+  });
+
+  test('struct protections', async() => {
+    const world = await World.create();
+    world.build(system => {
+      const entity = system.createEntity(Big);
+      const struct = entity.read(Big).struct;
+      expect(() => {struct.x = 1;}).toThrow();
+      expect(() => {entity.write(Big).struct = {z: 1} as any;}).toThrow();
+      const writableStruct = entity.write(Big).struct;
+      entity.write(Big);
+      expect(() => {writableStruct.x = 1;}).toThrow();
+    });
+  });
+
   test('object', async() => {
     const stuff = new Stuff();
     await testReadWrite('object', [undefined, null, stuff]);